@@ -0,0 +1,565 @@
+import Scanner from "./Scanner"
+import Parser from "./Parser"
+import Token from "./Token"
+import { ErrorReporter } from "./Error"
+import { Diagnostic } from "./Diagnostic"
+import { Resolver } from "./Resolver"
+import {
+  ClassStmt,
+  Expr,
+  FunctionDeclaration,
+  FunctionExpr,
+  FunctionStmt,
+  Stmt,
+  classMembers,
+} from "./Ast"
+import { Span, spanOf, tokenSpan } from "./Span"
+import { Arity } from "./Interpreter"
+import { defineStdlib } from "./Stdlib"
+import { exhaustiveCheck } from "./exhaustiveCheck"
+
+// What editors need to know about a single Lox document, computed without
+// running it: its diagnostics, what each name refers to, and its outline.
+// The language server builds one of these on every change.
+
+export type SymbolKind =
+  | "variable"
+  | "parameter"
+  | "function"
+  | "class"
+  | "method"
+  | "native"
+  | "module"
+
+export type Definition = {
+  name: string
+  kind: SymbolKind
+  // The name where it's declared, or null for natives.
+  token: Token | null
+  // How it reads in a hover, e.g. `fun add(a, b)`.
+  signature: string
+  // How many arguments calling it takes, or null if it isn't callable.
+  arity: Arity | null
+}
+
+export type Reference = { token: Token; definition: Definition }
+
+export type OutlineSymbol = {
+  name: string
+  kind: SymbolKind
+  // The whole declaration, and just its name.
+  span: Span
+  selection: Span
+  children: OutlineSymbol[]
+}
+
+const natives = collectNatives()
+
+// Scans, parses and resolves `source`. A document that doesn't parse still
+// gets what can be made of the statements the parser recovered, but like the
+// CLI it only reports resolver errors once the syntax errors are fixed.
+export function analyze(source: string): Analysis {
+  const reporter = new ErrorReporter()
+  const statements = new Parser(new Scanner(source, reporter).scanTokens(), reporter).parse()
+  const resolverReporter = reporter.hadError ? new ErrorReporter() : reporter
+  return new Analysis(source, statements, reporter, resolverReporter)
+}
+
+export class Analysis {
+  readonly source: string
+  readonly statements: Stmt[]
+  readonly diagnostics: Diagnostic[]
+  private definitions = new Map<Token, Definition>()
+  private references: Reference[] = []
+  // Top-level declarations in source order. A name can be declared twice.
+  private globals: Definition[] = []
+  private classes = new Map<string, ClassStmt>()
+
+  constructor(
+    source: string,
+    statements: Stmt[],
+    reporter: ErrorReporter,
+    resolverReporter: ErrorReporter
+  ) {
+    this.source = source
+    this.statements = statements
+
+    forEachStmt(statements, (stmt) => {
+      if (stmt.type !== "ClassStmt") return
+      this.classes.set(stmt.name.lexeme, stmt)
+      for (const method of [...stmt.methods, ...stmt.classMethods]) {
+        this.define(method.name, methodDefinition(stmt, method))
+      }
+    })
+
+    const globalReferences: Token[] = []
+    const resolver = new Resolver(
+      {
+        resolve: () => undefined,
+        declare: (name, node, global) => {
+          const definition = this.define(name, this.declaration(name, node))
+          if (global) this.globals.push(definition)
+        },
+        reference: (name, declaration) => {
+          if (declaration) {
+            this.references.push({ token: name, definition: this.definitions.get(declaration)! })
+          } else {
+            globalReferences.push(name)
+          }
+        },
+      },
+      resolverReporter
+    )
+    resolver.resolveStatements(statements)
+    this.diagnostics = reporter.diagnostics
+
+    for (const token of globalReferences) {
+      const definition = this.globalDefinition(token)
+      if (definition) this.references.push({ token, definition })
+    }
+    this.references.sort((a, b) => a.token.offset - b.token.offset)
+  }
+
+  // The definition of the name at `offset`, whether the cursor is on a use of
+  // it or on its declaration.
+  definitionAt(offset: number): Definition | null {
+    for (const reference of this.references) {
+      if (contains(reference.token, offset)) return reference.definition
+    }
+    let found: Definition | null = null
+    this.definitions.forEach((definition, token) => {
+      if (contains(token, offset)) found = definition
+    })
+    return found
+  }
+
+  // Every use of `definition`, in source order.
+  referencesTo(definition: Definition, includeDeclaration: boolean): Token[] {
+    const tokens = this.references
+      .filter((reference) => reference.definition === definition)
+      .map((reference) => reference.token)
+    if (includeDeclaration && definition.token) tokens.push(definition.token)
+    return tokens.sort((a, b) => a.offset - b.offset)
+  }
+
+  // What could be typed at `offset`: after a `.` or `?.` the methods that
+  // might be called there, otherwise every name in scope with inner ones first.
+  completions(offset: number): Definition[] {
+    const member = /([A-Za-z_]\w*)?\s*\??\.\s*\w*$/.exec(this.source.substring(0, offset))
+    if (member) return this.methodCompletions(member[1], offset)
+
+    const names = new Map<string, Definition>()
+    const add = (definition: Definition) => {
+      if (!names.has(definition.name)) names.set(definition.name, definition)
+    }
+    this.localsAt(offset).reverse().forEach(add)
+    for (let i = this.globals.length - 1; i >= 0; i--) add(this.globals[i])
+    natives.forEach(add)
+    return toArray(names)
+  }
+
+  // Classes and functions, with methods and nested declarations as children.
+  outline(): OutlineSymbol[] {
+    return outlineOf(this.statements)
+  }
+
+  private define(name: Token, definition: Definition): Definition {
+    this.definitions.set(name, definition)
+    return definition
+  }
+
+  private declaration(name: Token, node: Stmt | FunctionExpr): Definition {
+    const lexeme = name.lexeme
+    switch (node.type) {
+      case "FunctionExpr":
+        return { name: lexeme, kind: "parameter", token: name, signature: lexeme, arity: null }
+      case "FunctionStmt":
+        if (node.name !== name) {
+          return { name: lexeme, kind: "parameter", token: name, signature: lexeme, arity: null }
+        }
+        return {
+          name: lexeme,
+          kind: "function",
+          token: name,
+          signature: `fun ${lexeme}(${paramList(node)})`,
+          arity: node.params.length,
+        }
+      case "ClassStmt": {
+        const superclass = node.superclass ? ` < ${node.superclass.name.lexeme}` : ""
+        return {
+          name: lexeme,
+          kind: "class",
+          token: name,
+          signature: `class ${lexeme}${superclass}`,
+          arity: this.findMethod(node, "init")?.params.length ?? 0,
+        }
+      }
+      case "TryStmt":
+        return {
+          name: lexeme,
+          kind: "variable",
+          token: name,
+          signature: `catch (${lexeme})`,
+          arity: null,
+        }
+      case "ImportStmt":
+        return {
+          name: lexeme,
+          kind: "module",
+          token: name,
+          signature: `import ${node.path.lexeme} as ${lexeme}`,
+          arity: null,
+        }
+      default:
+        return {
+          name: lexeme,
+          kind: "variable",
+          token: name,
+          signature: `var ${lexeme}`,
+          arity: null,
+        }
+    }
+  }
+
+  // Globals can be used before they're declared, from inside a function, and
+  // redeclared. A use refers to the latest declaration before it, or failing
+  // that the first one after it.
+  private globalDefinition(name: Token): Definition | null {
+    let found: Definition | null = null
+    for (const definition of this.globals) {
+      if (definition.name !== name.lexeme) continue
+      if (found && definition.token!.offset > name.offset) break
+      found = definition
+    }
+    return found ?? natives.get(name.lexeme) ?? null
+  }
+
+  // Looks through superclasses declared in this document too.
+  private findMethod(klass: ClassStmt, name: string): FunctionStmt | null {
+    const seen: ClassStmt[] = []
+    let current: ClassStmt | undefined = klass
+    while (current && seen.indexOf(current) === -1) {
+      const method = current.methods.find((candidate) => candidate.name.lexeme === name)
+      if (method) return method
+      seen.push(current)
+      current = this.superclassOf(current)
+    }
+    return null
+  }
+
+  // Inside a class `this.` and `super.` can only reach its own hierarchy.
+  // Anything else could be an instance of any class.
+  private methodCompletions(receiver: string | undefined, offset: number): Definition[] {
+    let classes = toArray(this.classes)
+    const enclosing = classes.find((klass) => {
+      const span = spanOf(klass)
+      return span.start.offset < offset && offset < span.end.offset
+    })
+    if (enclosing && (receiver === "this" || receiver === "super")) {
+      classes = []
+      let current: ClassStmt | undefined =
+        receiver === "this" ? enclosing : this.superclassOf(enclosing)
+      while (current && classes.indexOf(current) === -1) {
+        classes.push(current)
+        current = this.superclassOf(current)
+      }
+    }
+
+    // Class methods are only reachable through the class itself.
+    const instanceOnly = receiver === "this" || receiver === "super"
+    const names = new Map<string, Definition>()
+    for (const klass of classes) {
+      const methods = instanceOnly ? klass.methods : [...klass.methods, ...klass.classMethods]
+      for (const method of methods) {
+        if (!names.has(method.name.lexeme)) {
+          names.set(method.name.lexeme, this.definitions.get(method.name)!)
+        }
+      }
+    }
+    return toArray(names)
+  }
+
+  private superclassOf(klass: ClassStmt): ClassStmt | undefined {
+    return klass.superclass ? this.classes.get(klass.superclass.name.lexeme) : undefined
+  }
+
+  // Declarations in the blocks and functions enclosing `offset` that come
+  // before it, outermost first.
+  private localsAt(offset: number): Definition[] {
+    const found: Definition[] = []
+    const add = (name: Token) => {
+      const definition = this.definitions.get(name)
+      if (definition) found.push(definition)
+    }
+
+    const visitFunction = (fn: FunctionDeclaration) => {
+      fn.params.forEach(add)
+      visit(fn.body)
+    }
+    const visit = (statements: Stmt[]) => {
+      for (const stmt of statements) {
+        const span = spanOf(stmt)
+        if (span.start.offset >= offset) break
+        const inside = offset <= span.end.offset
+
+        if (inside) {
+          for (const fn of functionExprsIn(stmt)) {
+            const fnSpan = spanOf(fn)
+            if (fnSpan.start.offset < offset && offset <= fnSpan.end.offset) visitFunction(fn)
+          }
+        }
+
+        switch (stmt.type) {
+          case "VarStmt":
+            // A variable can't be used in its own initializer.
+            if (!inside) add(stmt.name)
+            break
+          case "FunctionStmt":
+            add(stmt.name)
+            if (inside) visitFunction(stmt)
+            break
+          case "ClassStmt":
+            add(stmt.name)
+            for (const method of [...stmt.methods, ...stmt.classMethods]) {
+              const methodSpan = spanOf(method)
+              if (methodSpan.start.offset < offset && offset <= methodSpan.end.offset) {
+                visitFunction(method)
+              }
+            }
+            break
+          case "TryStmt": {
+            const catchClause = stmt.catchClause
+            if (catchClause && spanOf(catchClause.body).start.offset < offset) {
+              if (offset <= spanOf(catchClause.body).end.offset) add(catchClause.name)
+            }
+            if (inside) visit(childStatements(stmt))
+            break
+          }
+          default:
+            if (inside) visit(childStatements(stmt))
+            break
+        }
+      }
+    }
+
+    visit(this.statements)
+    return found
+  }
+}
+
+// Describes how many arguments something takes, e.g. "Takes 2 arguments."
+export function describeArity(arity: Arity): string {
+  const plural = (count: number) => (count === 1 ? "argument" : "arguments")
+  if (typeof arity === "number") return `Takes ${arity} ${plural(arity)}.`
+  if (arity.max === Infinity) return `Takes at least ${arity.min} ${plural(arity.min)}.`
+  return `Takes ${arity.min} to ${arity.max} arguments.`
+}
+
+// Like `Point.add(other)`, `Shape.area` for a getter, or `class Math.square(n)`
+// for a class method.
+function methodDefinition(klass: ClassStmt, method: FunctionStmt): Definition {
+  const prefix = method.keyword ? "class " : ""
+  const params = method.isGetter ? "" : `(${paramList(method)})`
+  return {
+    name: method.name.lexeme,
+    kind: "method",
+    token: method.name,
+    signature: `${prefix}${klass.name.lexeme}.${method.name.lexeme}${params}`,
+    arity: method.isGetter ? null : method.params.length,
+  }
+}
+
+function paramList(fn: FunctionStmt): string {
+  return fn.params.map((param) => param.lexeme).join(", ")
+}
+
+function outlineOf(statements: Stmt[]): OutlineSymbol[] {
+  const symbols: OutlineSymbol[] = []
+  for (const stmt of statements) {
+    if (stmt.type === "FunctionStmt") {
+      symbols.push(outlineSymbol(stmt.name, "function", stmt, outlineOf(stmt.body)))
+    } else if (stmt.type === "ClassStmt") {
+      const methods: OutlineSymbol[] = []
+      for (const member of classMembers(stmt)) {
+        if (member.type !== "FunctionStmt") continue
+        methods.push(outlineSymbol(member.name, "method", member, outlineOf(member.body)))
+      }
+      symbols.push(outlineSymbol(stmt.name, "class", stmt, methods))
+    } else {
+      // Declarations inside blocks, loops and anonymous functions belong to
+      // whatever encloses them.
+      symbols.push(...outlineOf(childStatements(stmt)))
+      functionExprsIn(stmt).forEach((fn) => symbols.push(...outlineOf(fn.body)))
+    }
+  }
+  return symbols
+}
+
+function outlineSymbol(
+  name: Token,
+  kind: SymbolKind,
+  stmt: Stmt,
+  children: OutlineSymbol[]
+): OutlineSymbol {
+  return { name: name.lexeme, kind, span: spanOf(stmt), selection: tokenSpan(name), children }
+}
+
+// Calls `visit` on every statement, including those nested in blocks,
+// functions and classes.
+function forEachStmt(statements: Stmt[], visit: (stmt: Stmt) => void) {
+  for (const stmt of statements) {
+    visit(stmt)
+    if (stmt.type === "FunctionStmt") {
+      forEachStmt(stmt.body, visit)
+    } else if (stmt.type === "ClassStmt") {
+      const methods = [...stmt.methods, ...stmt.classMethods]
+      methods.forEach((method) => forEachStmt(method.body, visit))
+    } else {
+      forEachStmt(childStatements(stmt), visit)
+    }
+    functionExprsIn(stmt).forEach((fn) => forEachStmt(fn.body, visit))
+  }
+}
+
+// The statements directly inside a block or control flow statement.
+function childStatements(stmt: Stmt): Stmt[] {
+  switch (stmt.type) {
+    case "BlockStmt":
+      return stmt.statements
+    case "IfStmt":
+      return stmt.elseBranch ? [stmt.thenBranch, stmt.elseBranch] : [stmt.thenBranch]
+    case "WhileStmt":
+      return [stmt.body]
+    case "ForStmt":
+      return stmt.initializer ? [stmt.initializer, stmt.body] : [stmt.body]
+    case "TryStmt": {
+      const children: Stmt[] = [stmt.body]
+      if (stmt.catchClause) children.push(stmt.catchClause.body)
+      if (stmt.finallyClause) children.push(stmt.finallyClause.body)
+      return children
+    }
+    default:
+      return []
+  }
+}
+
+// The anonymous functions in a statement's own expressions, leaving out any
+// nested in their bodies.
+function functionExprsIn(stmt: Stmt): FunctionExpr[] {
+  const found: FunctionExpr[] = []
+  const visit = (expr: Expr) => {
+    if (expr.type === "FunctionExpr") found.push(expr)
+    else childExpressions(expr).forEach(visit)
+  }
+  stmtExpressions(stmt).forEach(visit)
+  return found
+}
+
+// The expressions directly inside a statement, not counting its children.
+function stmtExpressions(stmt: Stmt): Expr[] {
+  switch (stmt.type) {
+    case "ExpressionStmt":
+    case "PrintStmt":
+      return [stmt.expression]
+    case "VarStmt":
+      return stmt.initializer ? [stmt.initializer] : []
+    case "IfStmt":
+    case "WhileStmt":
+      return [stmt.condition]
+    case "ForStmt": {
+      const exprs: Expr[] = []
+      if (stmt.condition) exprs.push(stmt.condition)
+      if (stmt.increment) exprs.push(stmt.increment)
+      return exprs
+    }
+    case "ReturnStmt":
+      return stmt.value ? [stmt.value] : []
+    case "ThrowStmt":
+      return [stmt.value]
+    case "ClassStmt": {
+      const exprs: Expr[] = []
+      for (const variable of stmt.variables) {
+        if (variable.initializer) exprs.push(variable.initializer)
+      }
+      return exprs
+    }
+    default:
+      return []
+  }
+}
+
+function childExpressions(expr: Expr): Expr[] {
+  switch (expr.type) {
+    case "BinaryExpr":
+    case "LogicalExpr":
+      return [expr.left, expr.right]
+    case "GroupingExpr":
+      return [expr.expression]
+    case "UnaryExpr":
+      return [expr.right]
+    case "AssignExpr":
+      return [expr.value]
+    case "CallExpr":
+      return [expr.callee, ...expr.arguments]
+    case "GetExpr":
+      return [expr.object]
+    case "SetExpr":
+      return [expr.object, expr.value]
+    case "ListExpr":
+      return expr.elements
+    case "InterpolationExpr":
+      return expr.expressions
+    case "UpdateExpr":
+      return [expr.target]
+    case "ConditionalExpr":
+      return [expr.condition, expr.thenBranch, expr.elseBranch]
+    case "OptionalChainExpr":
+      return [expr.expression]
+    case "MapExpr": {
+      const exprs: Expr[] = []
+      expr.entries.forEach((entry) => exprs.push(entry.key, entry.value))
+      return exprs
+    }
+    case "IndexGetExpr":
+      return [expr.object, expr.index]
+    case "IndexSetExpr":
+      return [expr.object, expr.index, expr.value]
+    case "LiteralExpr":
+    case "VariableExpr":
+    case "ThisExpr":
+    case "SuperExpr":
+    case "FunctionExpr":
+      return []
+    default:
+      return exhaustiveCheck(expr)
+  }
+}
+
+// Whether the cursor at `offset` is on `token`, counting just after it.
+function contains(token: Token, offset: number): boolean {
+  return token.offset <= offset && offset <= token.offset + token.lexeme.length
+}
+
+function toArray<K, V>(map: Map<K, V>): V[] {
+  const values: V[] = []
+  map.forEach((value) => values.push(value))
+  return values
+}
+
+// The standard library's names and arities, found by registering it with
+// something that only records them.
+function collectNatives(): Map<string, Definition> {
+  const found = new Map<string, Definition>()
+  defineStdlib({
+    defineNative(name, arity) {
+      found.set(name, {
+        name,
+        kind: "native",
+        token: null,
+        signature: `<native fn> ${name}`,
+        arity: typeof arity === "number" ? arity : { min: arity.min, max: arity.max ?? Infinity },
+      })
+    },
+  })
+  return found
+}
@@ -1,17 +1,83 @@
 import Token from "./Token"
+import TokenType from "./TokenType"
 
 export type BinaryExpr = { type: "BinaryExpr"; left: Expr; operator: Token; right: Expr }
-export type GroupingExpr = { type: "GroupingExpr"; expression: Expr }
+export type GroupingExpr = {
+  type: "GroupingExpr"
+  leftParen: Token
+  expression: Expr
+  rightParen: Token
+}
 export type CallExpr = { type: "CallExpr"; callee: Expr; paren: Token; arguments: Expr[] }
-export type LiteralExpr = { type: "LiteralExpr"; value: any }
+export type LiteralExpr = { type: "LiteralExpr"; token: Token; value: any }
+// `and`, `or` or `??`, which only evaluate `right` when they need to.
 export type LogicalExpr = { type: "LogicalExpr"; left: Expr; operator: Token; right: Expr }
+// `condition ? thenBranch : elseBranch`.
+export type ConditionalExpr = {
+  type: "ConditionalExpr"
+  condition: Expr
+  question: Token
+  thenBranch: Expr
+  elseBranch: Expr
+}
 export type UnaryExpr = { type: "UnaryExpr"; operator: Token; right: Expr }
 export type VariableExpr = { type: "VariableExpr"; name: Token }
-export type AssignExpr = { type: "AssignExpr"; name: Token; value: Expr }
-export type GetExpr = { type: "GetExpr"; name: Token; object: Expr }
-export type SetExpr = { type: "SetExpr"; object: Expr; name: Token; value: Expr }
+// `operator` is `=` or a compound assignment, like `+=`.
+export type AssignExpr = { type: "AssignExpr"; name: Token; operator: Token; value: Expr }
+// `optional` for `object?.name`, which skips the rest of its chain when the
+// object is nil.
+export type GetExpr = { type: "GetExpr"; name: Token; object: Expr; optional: boolean }
+export type SetExpr = { type: "SetExpr"; object: Expr; name: Token; operator: Token; value: Expr }
 export type ThisExpr = { type: "ThisExpr"; keyword: Token }
 export type SuperExpr = { type: "SuperExpr"; keyword: Token; method: Token }
+// An anonymous function, `fun (a, b) { ... }`. With an arrow instead of a
+// block, `fun (a, b) => a + b`, the body returns the expression after it.
+export type FunctionExpr = {
+  type: "FunctionExpr"
+  keyword: Token
+  params: Token[]
+  arrow: Token | null
+  body: Stmt[]
+  // The `}` ending the body. The arrow form has none and uses the last token
+  // of its expression.
+  rightBrace: Token
+}
+export type ListExpr = {
+  type: "ListExpr"
+  leftBracket: Token
+  elements: Expr[]
+  rightBracket: Token
+}
+export type MapExpr = {
+  type: "MapExpr"
+  leftBrace: Token
+  entries: MapEntry[]
+  rightBrace: Token
+}
+export type MapEntry = { key: Expr; value: Expr }
+export type IndexGetExpr = { type: "IndexGetExpr"; object: Expr; bracket: Token; index: Expr }
+export type IndexSetExpr = {
+  type: "IndexSetExpr"
+  object: Expr
+  bracket: Token
+  index: Expr
+  value: Expr
+}
+// `++` or `--`. The prefix forms produce the updated value and the postfix
+// forms the value from before.
+export type UpdateExpr = {
+  type: "UpdateExpr"
+  operator: Token
+  target: VariableExpr | GetExpr
+  prefix: boolean
+}
+// A string literal with expressions embedded in it, like "${a} and ${b}".
+// `strings` are the literal pieces around the expressions, one more than
+// there are expressions. Their lexemes include the `${` and `}` delimiters.
+export type InterpolationExpr = { type: "InterpolationExpr"; strings: Token[]; expressions: Expr[] }
+// A chain of calls, property reads and indexes with a `?.` in it, like
+// `a?.b.c()`. When a `?.` finds nil, the whole chain is nil.
+export type OptionalChainExpr = { type: "OptionalChainExpr"; expression: Expr }
 
 export type Expr =
   | BinaryExpr
@@ -26,41 +92,146 @@ export type Expr =
   | SetExpr
   | ThisExpr
   | SuperExpr
+  | ListExpr
+  | MapExpr
+  | IndexGetExpr
+  | IndexSetExpr
+  | FunctionExpr
+  | InterpolationExpr
+  | UpdateExpr
+  | ConditionalExpr
+  | OptionalChainExpr
 
-export type ExpressionStmt = { type: "ExpressionStmt"; expression: Expr }
-export type PrintStmt = { type: "PrintStmt"; expression: Expr }
-export type VarStmt = { type: "VarStmt"; name: Token; initializer: Expr | null }
-export type BlockStmt = { type: "BlockStmt"; statements: Stmt[] }
+// The arithmetic a compound assignment, `++` or `--` does, like PLUS for
+// `+=`, or null for a plain `=`.
+export function arithmeticOperator(operator: Token): TokenType | null {
+  switch (operator.type) {
+    case TokenType.PLUS_EQUAL:
+    case TokenType.PLUS_PLUS:
+      return TokenType.PLUS
+    case TokenType.MINUS_EQUAL:
+    case TokenType.MINUS_MINUS:
+      return TokenType.MINUS
+    case TokenType.STAR_EQUAL:
+      return TokenType.STAR
+    case TokenType.SLASH_EQUAL:
+      return TokenType.SLASH
+    default:
+      return null
+  }
+}
+
+export type ExpressionStmt = { type: "ExpressionStmt"; expression: Expr; semicolon: Token }
+export type PrintStmt = { type: "PrintStmt"; keyword: Token; expression: Expr; semicolon: Token }
+export type VarStmt = {
+  type: "VarStmt"
+  keyword: Token
+  name: Token
+  initializer: Expr | null
+  semicolon: Token
+}
+export type BlockStmt = {
+  type: "BlockStmt"
+  leftBrace: Token
+  statements: Stmt[]
+  rightBrace: Token
+}
 export type ClassStmt = {
   type: "ClassStmt"
+  keyword: Token
   name: Token
   superclass: VariableExpr | null
   methods: FunctionStmt[]
+  // Declared with a leading `class`, and called on the class itself.
+  classMethods: FunctionStmt[]
+  // Class-level variables, set on the class once its methods are in place.
+  variables: VarStmt[]
+  rightBrace: Token
+}
+
+// Everything declared in a class's body, in source order.
+export function classMembers(stmt: ClassStmt): (FunctionStmt | VarStmt)[] {
+  const start = (member: FunctionStmt | VarStmt) => (member.keyword ?? member.name).offset
+  const members = [...stmt.variables, ...stmt.classMethods, ...stmt.methods]
+  return members.sort((a, b) => start(a) - start(b))
 }
 export type IfStmt = {
   type: "IfStmt"
+  keyword: Token
   condition: Expr
   thenBranch: Stmt
   elseBranch: Stmt | null
 }
 export type WhileStmt = {
   type: "WhileStmt"
+  keyword: Token
   condition: Expr
   body: Stmt
 }
+export type ForStmt = {
+  type: "ForStmt"
+  keyword: Token
+  // A VarStmt or ExpressionStmt, scoped to the loop.
+  initializer: Stmt | null
+  condition: Expr | null
+  increment: Expr | null
+  body: Stmt
+}
 export type FunctionStmt = {
   type: "FunctionStmt"
+  // The `fun` keyword, or `class` for class methods. Instance methods are
+  // declared without one.
+  keyword: Token | null
   name: Token
   params: Token[]
+  // Getters are methods declared without a parameter list. Reading the
+  // property calls them.
+  isGetter: boolean
   body: Stmt[]
+  rightBrace: Token
+}
+
+// Either kind of function, for code that treats them alike.
+export type FunctionDeclaration = FunctionStmt | FunctionExpr
+
+// What a function is called in stack traces and when printed. Anonymous ones
+// are named after the line they start on, like `anonymous@3`.
+export function functionName(fn: FunctionDeclaration): string {
+  return fn.type === "FunctionStmt" ? fn.name.lexeme : `anonymous@${fn.keyword.line}`
+}
+
+export type ImportStmt = {
+  type: "ImportStmt"
+  keyword: Token
+  // The string literal naming the file, relative to the importing one.
+  path: Token
+  name: Token
+  semicolon: Token
 }
 
+export type ThrowStmt = { type: "ThrowStmt"; keyword: Token; value: Expr; semicolon: Token }
+export type TryStmt = {
+  type: "TryStmt"
+  keyword: Token
+  body: BlockStmt
+  // At least one of these is present.
+  catchClause: CatchClause | null
+  finallyClause: FinallyClause | null
+}
+export type CatchClause = { keyword: Token; name: Token; body: BlockStmt }
+export type FinallyClause = { keyword: Token; body: BlockStmt }
+
 export type ReturnStmt = {
   type: "ReturnStmt"
   keyword: Token
   value: Expr | null
+  semicolon: Token
 }
 
+// Leave, or skip to the next iteration of, the innermost loop.
+export type BreakStmt = { type: "BreakStmt"; keyword: Token; semicolon: Token }
+export type ContinueStmt = { type: "ContinueStmt"; keyword: Token; semicolon: Token }
+
 export type Stmt =
   | ExpressionStmt
   | PrintStmt
@@ -68,6 +239,12 @@ export type Stmt =
   | BlockStmt
   | IfStmt
   | WhileStmt
+  | ForStmt
   | FunctionStmt
   | ReturnStmt
+  | BreakStmt
+  | ContinueStmt
   | ClassStmt
+  | ImportStmt
+  | ThrowStmt
+  | TryStmt
@@ -0,0 +1,104 @@
+import Token from "./Token"
+
+// Instructions for the bytecode VM. Operands follow their opcode directly in
+// `Chunk.code`; each one is a plain number, so there are no width limits.
+export enum OpCode {
+  CONSTANT, // [constant index]
+  NIL,
+  TRUE,
+  FALSE,
+  POP,
+  DUP, // [distance below the top]
+  SWAP,
+  GET_LOCAL, // [slot]
+  SET_LOCAL, // [slot]
+  GET_GLOBAL, // [name constant]
+  DEFINE_GLOBAL, // [name constant]
+  SET_GLOBAL, // [name constant]
+  GET_UPVALUE, // [upvalue index]
+  SET_UPVALUE, // [upvalue index]
+  GET_PROPERTY, // [name constant]
+  CHECK_INSTANCE,
+  SET_PROPERTY, // [name constant]
+  GET_SUPER, // [name constant]
+  EQUAL,
+  GREATER,
+  GREATER_EQUAL,
+  LESS,
+  LESS_EQUAL,
+  ADD,
+  SUBTRACT,
+  MULTIPLY,
+  DIVIDE,
+  MODULO,
+  POWER,
+  NOT,
+  NEGATE,
+  PRINT,
+  JUMP, // [target]
+  JUMP_IF_FALSE, // [target]
+  JUMP_IF_NIL, // [target]
+  CALL, // [argument count]
+  CLOSURE, // [function constant, then (isLocal, index) per upvalue]
+  CLOSE_UPVALUE,
+  RETURN,
+  CLASS, // [name constant]
+  CHECK_SUPERCLASS,
+  INHERIT,
+  METHOD, // [name constant]
+  CLASS_METHOD, // [name constant]
+  LIST, // [element count]
+  INTERPOLATE, // [part count]
+  MAP,
+  MAP_ENTRY,
+  CHECK_INDEXABLE,
+  GET_INDEX,
+  SET_INDEX,
+  IMPORT, // [ImportStmt constant]
+  TRY, // [catch clause target]
+  TRY_FINALLY, // [finally clause target]
+  END_TRY,
+  THROW,
+  RETHROW,
+}
+
+export class Chunk {
+  code: number[] = []
+  // The token each byte was compiled from, used to place runtime errors.
+  tokens: (Token | null)[] = []
+  constants: any[] = []
+
+  write(byte: number, token: Token | null) {
+    this.code.push(byte)
+    this.tokens.push(token)
+  }
+
+  addConstant(value: any): number {
+    // Object.is keeps 0 and -0 apart.
+    const existing = this.constants.findIndex((constant) => Object.is(constant, value))
+    if (existing !== -1) return existing
+    this.constants.push(value)
+    return this.constants.length - 1
+  }
+}
+
+// A compiled function body. Closures pair one of these with captured upvalues.
+export class FunctionProto {
+  readonly name: string
+  // The class declaring this method, or null for plain functions and the script.
+  readonly className: string | null
+  arity = 0
+  // Getters run as soon as they're read.
+  isGetter = false
+  upvalueCount = 0
+  chunk = new Chunk()
+
+  constructor(name: string, className: string | null) {
+    this.name = name
+    this.className = className
+  }
+
+  toString() {
+    return `<fn ${this.name}>`
+  }
+}
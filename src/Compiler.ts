@@ -0,0 +1,742 @@
+import Token from "./Token"
+import TokenType from "./TokenType"
+import {
+  Expr,
+  Stmt,
+  FunctionDeclaration,
+  functionName,
+  ClassStmt,
+  BinaryExpr,
+  LogicalExpr,
+  TryStmt,
+  FinallyClause,
+  UpdateExpr,
+  arithmeticOperator,
+} from "./Ast"
+import { Chunk, FunctionProto, OpCode } from "./Chunk"
+import { exhaustiveCheck } from "./exhaustiveCheck"
+
+type FunctionKind = "script" | "function" | "method" | "initializer"
+
+type Local = { name: string; depth: number; isCaptured: boolean }
+type Upvalue = { index: number; isLocal: boolean }
+// A try statement the code being compiled is inside, and how many of its
+// handlers are active there: the catch and finally handlers in the try
+// body, only the finally one in the catch clause.
+type TryState = { handlers: number; finallyClause: FinallyClause | null }
+// A loop the code being compiled is inside. `break` and `continue` jump out
+// of the body, leaving what it declared and the try statements it's in.
+type LoopState = {
+  // How many locals and try statements there were outside the body.
+  localCount: number
+  tryCount: number
+  breakJumps: number[]
+  continueJumps: number[]
+}
+
+// The compiler state for one function body being compiled.
+class FunctionState {
+  readonly enclosing: FunctionState | null
+  readonly fn: FunctionProto
+  readonly kind: FunctionKind
+  readonly locals: Local[] = []
+  readonly upvalues: Upvalue[] = []
+  // Innermost last.
+  readonly tries: TryState[] = []
+  readonly loops: LoopState[] = []
+  // The jumps out of each optional chain being compiled, taken when a `?.`
+  // finds nil.
+  readonly chains: number[][] = []
+  scopeDepth = 0
+
+  constructor(enclosing: FunctionState | null, fn: FunctionProto, kind: FunctionKind) {
+    this.enclosing = enclosing
+    this.fn = fn
+    this.kind = kind
+    // Slot zero holds the function being called, or `this` inside methods.
+    const receiver = kind === "method" || kind === "initializer" ? "this" : ""
+    this.locals.push({ name: receiver, depth: 0, isCaptured: false })
+  }
+}
+
+// Compiles resolved statements into bytecode for the VM. The resolver has
+// already reported every compile error, so this assumes a valid program.
+export class Compiler {
+  private current: FunctionState = new FunctionState(
+    null,
+    new FunctionProto("script", null),
+    "script"
+  )
+
+  compile(statements: Stmt[]): FunctionProto {
+    for (const stmt of statements) {
+      this.compileStmt(stmt)
+    }
+    this.emit(OpCode.NIL, null)
+    this.emit(OpCode.RETURN, null)
+    return this.current.fn
+  }
+
+  private compileStmt(stmt: Stmt) {
+    switch (stmt.type) {
+      case "ExpressionStmt":
+        this.compileExpr(stmt.expression)
+        this.emit(OpCode.POP, stmt.semicolon)
+        return
+      case "PrintStmt":
+        this.compileExpr(stmt.expression)
+        this.emit(OpCode.PRINT, stmt.keyword)
+        return
+      case "VarStmt":
+        this.declareVariable(stmt.name)
+        if (stmt.initializer) {
+          this.compileExpr(stmt.initializer)
+        } else {
+          this.emit(OpCode.NIL, stmt.name)
+        }
+        this.defineVariable(stmt.name)
+        return
+      case "BlockStmt":
+        this.beginScope()
+        for (const statement of stmt.statements) {
+          this.compileStmt(statement)
+        }
+        this.endScope(stmt.rightBrace)
+        return
+      case "IfStmt": {
+        this.compileExpr(stmt.condition)
+        const thenJump = this.emitJump(OpCode.JUMP_IF_FALSE, stmt.keyword)
+        this.emit(OpCode.POP, stmt.keyword)
+        this.compileStmt(stmt.thenBranch)
+        const elseJump = this.emitJump(OpCode.JUMP, stmt.keyword)
+        this.patchJump(thenJump)
+        this.emit(OpCode.POP, stmt.keyword)
+        if (stmt.elseBranch) this.compileStmt(stmt.elseBranch)
+        this.patchJump(elseJump)
+        return
+      }
+      case "WhileStmt": {
+        const loopStart = this.chunk().code.length
+        this.compileExpr(stmt.condition)
+        const exitJump = this.emitJump(OpCode.JUMP_IF_FALSE, stmt.keyword)
+        this.emit(OpCode.POP, stmt.keyword)
+        const loop = this.compileLoopBody(stmt.body)
+        this.emit(OpCode.JUMP, stmt.keyword, loopStart)
+        this.patchJump(exitJump)
+        this.emit(OpCode.POP, stmt.keyword)
+        loop.breakJumps.forEach((jump) => this.patchJump(jump))
+        return
+      }
+      case "ForStmt": {
+        this.beginScope()
+        if (stmt.initializer) this.compileStmt(stmt.initializer)
+
+        const loopStart = this.chunk().code.length
+        let exitJump = -1
+        if (stmt.condition) {
+          this.compileExpr(stmt.condition)
+          exitJump = this.emitJump(OpCode.JUMP_IF_FALSE, stmt.keyword)
+          this.emit(OpCode.POP, stmt.keyword)
+        }
+        const loop = this.compileLoopBody(stmt.body)
+        if (stmt.increment) {
+          this.compileExpr(stmt.increment)
+          this.emit(OpCode.POP, stmt.keyword)
+        }
+        this.emit(OpCode.JUMP, stmt.keyword, loopStart)
+
+        if (exitJump !== -1) {
+          this.patchJump(exitJump)
+          this.emit(OpCode.POP, stmt.keyword)
+        }
+        loop.breakJumps.forEach((jump) => this.patchJump(jump))
+        this.endScope(stmt.keyword)
+        return
+      }
+      case "FunctionStmt":
+        this.declareVariable(stmt.name)
+        // A function may refer to itself, so it is usable before its body ends.
+        this.markInitialized()
+        this.compileFunction(stmt, "function", null)
+        this.defineVariable(stmt.name)
+        return
+      case "ReturnStmt":
+        if (stmt.value) {
+          this.compileExpr(stmt.value)
+        } else {
+          this.emitImplicitReturnValue(stmt.keyword)
+        }
+        this.exitTries(stmt.keyword, 0, true)
+        this.emit(OpCode.RETURN, stmt.keyword)
+        return
+      case "BreakStmt":
+      case "ContinueStmt": {
+        const loop = this.current.loops[this.current.loops.length - 1]
+        this.exitTries(stmt.keyword, loop.tryCount, false)
+        // Only the body's locals go; the variables stay declared after the
+        // jump, which skips the end of their scopes.
+        const { locals } = this.current
+        for (let i = locals.length - 1; i >= loop.localCount; i--) {
+          this.emit(locals[i].isCaptured ? OpCode.CLOSE_UPVALUE : OpCode.POP, stmt.keyword)
+        }
+        const jump = this.emitJump(OpCode.JUMP, stmt.keyword)
+        if (stmt.type === "BreakStmt") loop.breakJumps.push(jump)
+        else loop.continueJumps.push(jump)
+        return
+      }
+      case "ClassStmt":
+        this.compileClass(stmt)
+        return
+      case "ThrowStmt":
+        this.compileExpr(stmt.value)
+        this.emit(OpCode.THROW, stmt.keyword)
+        return
+      case "TryStmt":
+        this.compileTry(stmt)
+        return
+      case "ImportStmt":
+        // Imports are only allowed at the top level, so this is a global.
+        this.emit(OpCode.IMPORT, stmt.path, this.chunk().addConstant(stmt))
+        this.defineVariable(stmt.name)
+        return
+      default:
+        exhaustiveCheck(stmt)
+    }
+  }
+
+  // Compiles a loop's body with `continue` jumping to just after it. The
+  // caller patches the loop's break jumps once it's past the loop.
+  private compileLoopBody(body: Stmt): LoopState {
+    const loop: LoopState = {
+      localCount: this.current.locals.length,
+      tryCount: this.current.tries.length,
+      breakJumps: [],
+      continueJumps: [],
+    }
+    this.current.loops.push(loop)
+    this.compileStmt(body)
+    this.current.loops.pop()
+    loop.continueJumps.forEach((jump) => this.patchJump(jump))
+    return loop
+  }
+
+  // Handlers are pushed by TRY and TRY_FINALLY and popped by END_TRY, or by
+  // the VM when it jumps to one. The finally clause is compiled twice: once
+  // for when the try statement finishes, and once for when an error leaves
+  // it, which raises the error again afterwards.
+  private compileTry(stmt: TryStmt) {
+    const { catchClause, finallyClause } = stmt
+    const state: TryState = { handlers: 0, finallyClause }
+    this.current.tries.push(state)
+
+    let finallyHandler = -1
+    if (finallyClause) {
+      finallyHandler = this.emitJump(OpCode.TRY_FINALLY, stmt.keyword)
+      state.handlers++
+    }
+
+    if (catchClause) {
+      const catchHandler = this.emitJump(OpCode.TRY, stmt.keyword)
+      state.handlers++
+      this.compileStmt(stmt.body)
+      this.emit(OpCode.END_TRY, catchClause.keyword)
+      state.handlers--
+      const skipCatch = this.emitJump(OpCode.JUMP, catchClause.keyword)
+
+      // The VM pushes the error where the error variable's slot is.
+      this.patchJump(catchHandler)
+      this.beginScope()
+      this.addLocal(catchClause.name.lexeme)
+      this.markInitialized()
+      for (const statement of catchClause.body.statements) {
+        this.compileStmt(statement)
+      }
+      this.endScope(catchClause.body.rightBrace)
+      this.patchJump(skipCatch)
+    } else {
+      this.compileStmt(stmt.body)
+    }
+    this.current.tries.pop()
+
+    if (finallyClause) {
+      this.emit(OpCode.END_TRY, finallyClause.keyword)
+      this.compileStmt(finallyClause.body)
+      const skipFinally = this.emitJump(OpCode.JUMP, finallyClause.keyword)
+
+      // The error waits in a slot no variable can name.
+      this.patchJump(finallyHandler)
+      this.addLocal("")
+      this.compileStmt(finallyClause.body)
+      this.emit(OpCode.RETHROW, finallyClause.keyword)
+      this.current.locals.pop()
+      this.patchJump(skipFinally)
+    }
+  }
+
+  // Leaves the try statements the current code is inside, down to the
+  // first `depth` of them: ends their handlers and runs their finally
+  // clauses. A `return` keeps its value on top of the stack meanwhile.
+  private exitTries(token: Token, depth: number, keepsValue: boolean) {
+    const { tries, loops } = this.current
+    for (let i = tries.length - 1; i >= depth; i--) {
+      for (let j = 0; j < tries[i].handlers; j++) {
+        this.emit(OpCode.END_TRY, token)
+      }
+
+      const finallyClause = tries[i].finallyClause
+      if (!finallyClause) continue
+      // Jumps in the finally clause only leave the try statements and
+      // loops outside this one.
+      const innerTries = tries.splice(i)
+      const loopCount = loops.filter((loop) => loop.tryCount <= i).length
+      const innerLoops = loops.splice(loopCount)
+      if (keepsValue) this.addLocal("")
+      this.compileStmt(finallyClause.body)
+      if (keepsValue) this.current.locals.pop()
+      tries.push(...innerTries)
+      loops.push(...innerLoops)
+    }
+  }
+
+  private compileClass(stmt: ClassStmt) {
+    const name = stmt.name
+    // Check the superclass before the class exists, matching the interpreter.
+    if (stmt.superclass) {
+      this.compileExpr(stmt.superclass)
+      this.emit(OpCode.CHECK_SUPERCLASS, stmt.superclass.name)
+      this.emit(OpCode.POP, stmt.superclass.name)
+    }
+
+    this.declareVariable(name)
+    this.emit(OpCode.CLASS, name, this.identifierConstant(name))
+    this.defineVariable(name)
+
+    if (stmt.superclass) {
+      this.beginScope()
+      this.compileExpr(stmt.superclass)
+      this.addLocal("super")
+      this.markInitialized()
+      this.namedVariable(name.lexeme, name, false)
+      this.emit(OpCode.INHERIT, stmt.superclass.name)
+    }
+
+    this.namedVariable(name.lexeme, name, false)
+    for (const method of stmt.methods) {
+      const kind = method.name.lexeme === "init" ? "initializer" : "method"
+      this.compileFunction(method, kind, name.lexeme)
+      this.emit(OpCode.METHOD, method.name, this.identifierConstant(method.name))
+    }
+    for (const method of stmt.classMethods) {
+      this.compileFunction(method, "function", name.lexeme)
+      this.emit(OpCode.CLASS_METHOD, method.name, this.identifierConstant(method.name))
+    }
+    this.emit(OpCode.POP, stmt.rightBrace)
+
+    if (stmt.superclass) this.endScope(stmt.rightBrace)
+
+    for (const variable of stmt.variables) {
+      this.namedVariable(name.lexeme, name, false)
+      if (variable.initializer) this.compileExpr(variable.initializer)
+      else this.emit(OpCode.NIL, variable.name)
+      this.emit(OpCode.SET_PROPERTY, variable.name, this.identifierConstant(variable.name))
+      this.emit(OpCode.POP, variable.semicolon)
+    }
+  }
+
+  private compileFunction(stmt: FunctionDeclaration, kind: FunctionKind, className: string | null) {
+    const fn = new FunctionProto(functionName(stmt), className)
+    fn.arity = stmt.params.length
+    fn.isGetter = stmt.type === "FunctionStmt" && stmt.isGetter
+    this.current = new FunctionState(this.current, fn, kind)
+    this.beginScope()
+
+    for (const param of stmt.params) {
+      this.declareVariable(param)
+      this.defineVariable(param)
+    }
+    for (const statement of stmt.body) {
+      this.compileStmt(statement)
+    }
+    this.emitImplicitReturnValue(stmt.rightBrace)
+    this.emit(OpCode.RETURN, stmt.rightBrace)
+
+    const state = this.current
+    this.current = state.enclosing!
+    fn.upvalueCount = state.upvalues.length
+
+    const token = stmt.type === "FunctionStmt" ? stmt.name : stmt.keyword
+    this.emit(OpCode.CLOSURE, token, this.chunk().addConstant(fn))
+    for (const upvalue of state.upvalues) {
+      this.emit(upvalue.isLocal ? 1 : 0, token)
+      this.emit(upvalue.index, token)
+    }
+  }
+
+  private compileExpr(expr: Expr) {
+    switch (expr.type) {
+      case "LiteralExpr":
+        if (expr.value === null) this.emit(OpCode.NIL, expr.token)
+        else if (expr.value === true) this.emit(OpCode.TRUE, expr.token)
+        else if (expr.value === false) this.emit(OpCode.FALSE, expr.token)
+        else this.emit(OpCode.CONSTANT, expr.token, this.chunk().addConstant(expr.value))
+        return
+      case "GroupingExpr":
+        this.compileExpr(expr.expression)
+        return
+      case "UnaryExpr":
+        this.compileExpr(expr.right)
+        if (expr.operator.type === TokenType.BANG) {
+          this.emit(OpCode.NOT, expr.operator)
+        } else {
+          this.emit(OpCode.NEGATE, expr.operator)
+        }
+        return
+      case "BinaryExpr":
+        this.compileBinary(expr)
+        return
+      case "LogicalExpr":
+        this.compileLogical(expr)
+        return
+      case "VariableExpr":
+        this.namedVariable(expr.name.lexeme, expr.name, false)
+        return
+      case "AssignExpr": {
+        const arithmetic = arithmeticOperator(expr.operator)
+        if (arithmetic !== null) this.namedVariable(expr.name.lexeme, expr.name, false)
+        this.compileExpr(expr.value)
+        if (arithmetic !== null) this.emitOperator(expr.operator, arithmetic)
+        this.namedVariable(expr.name.lexeme, expr.name, true)
+        return
+      }
+      case "CallExpr":
+        this.compileExpr(expr.callee)
+        for (const arg of expr.arguments) {
+          this.compileExpr(arg)
+        }
+        this.emit(OpCode.CALL, expr.paren, expr.arguments.length)
+        return
+      case "GetExpr": {
+        this.compileExpr(expr.object)
+        if (expr.optional) {
+          // The nil is left on the stack as the value of the whole chain.
+          const { chains } = this.current
+          chains[chains.length - 1].push(this.emitJump(OpCode.JUMP_IF_NIL, expr.name))
+        }
+        this.emit(OpCode.GET_PROPERTY, expr.name, this.identifierConstant(expr.name))
+        return
+      }
+      case "OptionalChainExpr": {
+        const { chains } = this.current
+        chains.push([])
+        this.compileExpr(expr.expression)
+        chains.pop()!.forEach((jump) => this.patchJump(jump))
+        return
+      }
+      case "ConditionalExpr": {
+        this.compileExpr(expr.condition)
+        const elseJump = this.emitJump(OpCode.JUMP_IF_FALSE, expr.question)
+        this.emit(OpCode.POP, expr.question)
+        this.compileExpr(expr.thenBranch)
+        const endJump = this.emitJump(OpCode.JUMP, expr.question)
+        this.patchJump(elseJump)
+        this.emit(OpCode.POP, expr.question)
+        this.compileExpr(expr.elseBranch)
+        this.patchJump(endJump)
+        return
+      }
+      case "SetExpr": {
+        const arithmetic = arithmeticOperator(expr.operator)
+        this.compileExpr(expr.object)
+        this.emit(OpCode.CHECK_INSTANCE, expr.name)
+        if (arithmetic !== null) {
+          // The object stays below the current value for SET_PROPERTY.
+          this.emit(OpCode.DUP, expr.name, 0)
+          this.emit(OpCode.GET_PROPERTY, expr.name, this.identifierConstant(expr.name))
+        }
+        this.compileExpr(expr.value)
+        if (arithmetic !== null) this.emitOperator(expr.operator, arithmetic)
+        this.emit(OpCode.SET_PROPERTY, expr.name, this.identifierConstant(expr.name))
+        return
+      }
+      case "ThisExpr":
+        this.namedVariable("this", expr.keyword, false)
+        return
+      case "SuperExpr":
+        this.namedVariable("this", expr.keyword, false)
+        this.namedVariable("super", expr.keyword, false)
+        this.emit(OpCode.GET_SUPER, expr.method, this.identifierConstant(expr.method))
+        return
+      case "ListExpr":
+        for (const element of expr.elements) {
+          this.compileExpr(element)
+        }
+        this.emit(OpCode.LIST, expr.rightBracket, expr.elements.length)
+        return
+      case "MapExpr":
+        this.emit(OpCode.MAP, expr.leftBrace)
+        for (const entry of expr.entries) {
+          this.compileExpr(entry.key)
+          this.compileExpr(entry.value)
+          this.emit(OpCode.MAP_ENTRY, expr.rightBrace)
+        }
+        return
+      case "IndexGetExpr":
+        this.compileExpr(expr.object)
+        this.compileExpr(expr.index)
+        this.emit(OpCode.GET_INDEX, expr.bracket)
+        return
+      case "IndexSetExpr":
+        this.compileExpr(expr.object)
+        this.compileExpr(expr.index)
+        this.emit(OpCode.CHECK_INDEXABLE, expr.bracket)
+        this.compileExpr(expr.value)
+        this.emit(OpCode.SET_INDEX, expr.bracket)
+        return
+      case "FunctionExpr":
+        this.compileFunction(expr, "function", null)
+        return
+      case "InterpolationExpr":
+        expr.strings.forEach((part, i) => {
+          this.emit(OpCode.CONSTANT, part, this.chunk().addConstant(part.literal))
+          if (i < expr.expressions.length) this.compileExpr(expr.expressions[i])
+        })
+        this.emit(OpCode.INTERPOLATE, expr.strings[0], expr.strings.length * 2 - 1)
+        return
+      case "UpdateExpr":
+        this.compileUpdate(expr)
+        return
+      default:
+        exhaustiveCheck(expr)
+    }
+  }
+
+  private compileUpdate(expr: UpdateExpr) {
+    const { operator, target } = expr
+    const update = () => {
+      this.emit(OpCode.CONSTANT, operator, this.chunk().addConstant(1))
+      this.emitOperator(operator, arithmeticOperator(operator)!)
+    }
+
+    if (target.type === "VariableExpr") {
+      const name = target.name
+      this.namedVariable(name.lexeme, name, false)
+      if (!expr.prefix) this.emit(OpCode.DUP, operator, 0)
+      update()
+      this.namedVariable(name.lexeme, name, true)
+      if (!expr.prefix) this.emit(OpCode.POP, operator)
+      return
+    }
+
+    const property = this.identifierConstant(target.name)
+    this.compileExpr(target.object)
+    this.emit(OpCode.CHECK_INSTANCE, target.name)
+    this.emit(OpCode.DUP, target.name, 0)
+    this.emit(OpCode.GET_PROPERTY, target.name, property)
+    if (!expr.prefix) {
+      // Keep the old value under the object: [old, object, old].
+      this.emit(OpCode.SWAP, operator)
+      this.emit(OpCode.DUP, operator, 1)
+    }
+    update()
+    this.emit(OpCode.SET_PROPERTY, target.name, property)
+    if (!expr.prefix) this.emit(OpCode.POP, operator)
+  }
+
+  private compileBinary(expr: BinaryExpr) {
+    this.compileExpr(expr.left)
+    this.compileExpr(expr.right)
+    this.emitOperator(expr.operator, expr.operator.type)
+  }
+
+  // Emits the instructions for the binary operator `type`, placing errors at
+  // `operator`.
+  private emitOperator(operator: Token, type: TokenType) {
+    switch (type) {
+      case TokenType.GREATER:
+        this.emit(OpCode.GREATER, operator)
+        return
+      case TokenType.GREATER_EQUAL:
+        this.emit(OpCode.GREATER_EQUAL, operator)
+        return
+      case TokenType.LESS:
+        this.emit(OpCode.LESS, operator)
+        return
+      case TokenType.LESS_EQUAL:
+        this.emit(OpCode.LESS_EQUAL, operator)
+        return
+      case TokenType.MINUS:
+        this.emit(OpCode.SUBTRACT, operator)
+        return
+      case TokenType.PLUS:
+        this.emit(OpCode.ADD, operator)
+        return
+      case TokenType.SLASH:
+        this.emit(OpCode.DIVIDE, operator)
+        return
+      case TokenType.STAR:
+        this.emit(OpCode.MULTIPLY, operator)
+        return
+      case TokenType.PERCENT:
+        this.emit(OpCode.MODULO, operator)
+        return
+      case TokenType.STAR_STAR:
+        this.emit(OpCode.POWER, operator)
+        return
+      case TokenType.BANG_EQUAL:
+        this.emit(OpCode.EQUAL, operator)
+        this.emit(OpCode.NOT, operator)
+        return
+      case TokenType.EQUAL_EQUAL:
+        this.emit(OpCode.EQUAL, operator)
+        return
+    }
+  }
+
+  private compileLogical(expr: LogicalExpr) {
+    this.compileExpr(expr.left)
+    if (expr.operator.type === TokenType.OR) {
+      const elseJump = this.emitJump(OpCode.JUMP_IF_FALSE, expr.operator)
+      const endJump = this.emitJump(OpCode.JUMP, expr.operator)
+      this.patchJump(elseJump)
+      this.emit(OpCode.POP, expr.operator)
+      this.compileExpr(expr.right)
+      this.patchJump(endJump)
+    } else if (expr.operator.type === TokenType.QUESTION_QUESTION) {
+      const elseJump = this.emitJump(OpCode.JUMP_IF_NIL, expr.operator)
+      const endJump = this.emitJump(OpCode.JUMP, expr.operator)
+      this.patchJump(elseJump)
+      this.emit(OpCode.POP, expr.operator)
+      this.compileExpr(expr.right)
+      this.patchJump(endJump)
+    } else {
+      const endJump = this.emitJump(OpCode.JUMP_IF_FALSE, expr.operator)
+      this.emit(OpCode.POP, expr.operator)
+      this.compileExpr(expr.right)
+      this.patchJump(endJump)
+    }
+  }
+
+  private emitImplicitReturnValue(token: Token) {
+    if (this.current.kind === "initializer") {
+      this.emit(OpCode.GET_LOCAL, token, 0)
+    } else {
+      this.emit(OpCode.NIL, token)
+    }
+  }
+
+  private namedVariable(name: string, token: Token, assign: boolean) {
+    let slot = this.resolveLocal(this.current, name)
+    if (slot !== -1) {
+      this.emit(assign ? OpCode.SET_LOCAL : OpCode.GET_LOCAL, token, slot)
+      return
+    }
+
+    slot = this.resolveUpvalue(this.current, name)
+    if (slot !== -1) {
+      this.emit(assign ? OpCode.SET_UPVALUE : OpCode.GET_UPVALUE, token, slot)
+      return
+    }
+
+    const constant = this.chunk().addConstant(name)
+    this.emit(assign ? OpCode.SET_GLOBAL : OpCode.GET_GLOBAL, token, constant)
+  }
+
+  private resolveLocal(state: FunctionState, name: string): number {
+    for (let i = state.locals.length - 1; i >= 0; i--) {
+      if (state.locals[i].name === name) return i
+    }
+    return -1
+  }
+
+  private resolveUpvalue(state: FunctionState, name: string): number {
+    if (!state.enclosing) return -1
+
+    const local = this.resolveLocal(state.enclosing, name)
+    if (local !== -1) {
+      state.enclosing.locals[local].isCaptured = true
+      return this.addUpvalue(state, local, true)
+    }
+
+    const upvalue = this.resolveUpvalue(state.enclosing, name)
+    if (upvalue !== -1) {
+      return this.addUpvalue(state, upvalue, false)
+    }
+
+    return -1
+  }
+
+  private addUpvalue(state: FunctionState, index: number, isLocal: boolean): number {
+    const existing = state.upvalues.findIndex((u) => u.index === index && u.isLocal === isLocal)
+    if (existing !== -1) return existing
+
+    state.upvalues.push({ index, isLocal })
+    return state.upvalues.length - 1
+  }
+
+  // Locals are declared before their initializer runs and defined after, but
+  // the resolver already rejected reads in between, so both just claim a slot.
+  private declareVariable(name: Token) {
+    if (this.current.scopeDepth === 0) return
+    this.addLocal(name.lexeme)
+  }
+
+  private addLocal(name: string) {
+    this.current.locals.push({ name, depth: -1, isCaptured: false })
+  }
+
+  private markInitialized() {
+    if (this.current.scopeDepth === 0) return
+    this.current.locals[this.current.locals.length - 1].depth = this.current.scopeDepth
+  }
+
+  private defineVariable(name: Token) {
+    if (this.current.scopeDepth > 0) {
+      this.markInitialized()
+      return
+    }
+    this.emit(OpCode.DEFINE_GLOBAL, name, this.identifierConstant(name))
+  }
+
+  private beginScope() {
+    this.current.scopeDepth++
+  }
+
+  private endScope(token: Token) {
+    const state = this.current
+    state.scopeDepth--
+
+    while (
+      state.locals.length > 0 &&
+      state.locals[state.locals.length - 1].depth > state.scopeDepth
+    ) {
+      const local = state.locals.pop()!
+      this.emit(local.isCaptured ? OpCode.CLOSE_UPVALUE : OpCode.POP, token)
+    }
+  }
+
+  private identifierConstant(name: Token): number {
+    return this.chunk().addConstant(name.lexeme)
+  }
+
+  private emit(byte: number, token: Token | null, ...operands: number[]) {
+    const chunk = this.chunk()
+    chunk.write(byte, token)
+    for (const operand of operands) {
+      chunk.write(operand, token)
+    }
+  }
+
+  private emitJump(op: OpCode, token: Token): number {
+    this.emit(op, token, -1)
+    return this.chunk().code.length - 1
+  }
+
+  // Points the jump whose operand is at `offset` to the next instruction.
+  private patchJump(offset: number) {
+    this.chunk().code[offset] = this.chunk().code.length
+  }
+
+  private chunk(): Chunk {
+    return this.current.fn.chunk
+  }
+}
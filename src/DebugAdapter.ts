@@ -0,0 +1,311 @@
+import { readFileSync } from "fs"
+import { basename, resolve } from "path"
+import Scanner from "./Scanner"
+import Parser from "./Parser"
+import { Stmt } from "./Ast"
+import { ErrorReporter } from "./Error"
+import { Interpreter } from "./Interpreter"
+import { Resolver } from "./Resolver"
+import { renderDiagnostic } from "./Diagnostic"
+import { MessageReader, writeMessage } from "./Rpc"
+import { FileLoader } from "./Module"
+import { childrenOf, DebugFrame, Debugger, describeValue, StopReason, Terminated } from "./Debugger"
+
+// A Debug Adapter Protocol server, so editors can debug Lox programs. It
+// reads requests over stdio with the same framing as the language server.
+// Lox has a single thread, which is always thread 1.
+//
+// See https://microsoft.github.io/debug-adapter-protocol/specification
+
+type Request = { seq: number; type: "request"; command: string; arguments?: any }
+
+const threadId = 1
+
+// Thrown by a request handler to fail the request with `message`.
+class RequestError extends Error {}
+
+type Program = {
+  path: string
+  source: string
+  statements: Stmt[]
+  interpreter: Interpreter
+  // Where runtime errors go, to be sent to the client once the program ends.
+  reporter: ErrorReporter
+  // The text of the modules it imports, for rendering their diagnostics.
+  sources: { [file: string]: string }
+  stopOnEntry: boolean
+}
+
+export class DebugAdapter {
+  // Set once the client disconnects.
+  finished = false
+  private input: MessageReader
+  private output: number
+  private seq = 1
+  private debugger: Debugger | null = null
+  private program: Program | null = null
+  private configured = false
+  // The lines set in each source, by absolute path. The program only stops
+  // in its own file, so the others are kept but never hit.
+  private breakpoints = new Map<string, number[]>()
+  // Replaced at every stop, since the frames and values they refer to
+  // change once the program carries on.
+  private frames: DebugFrame[] = []
+  private variables: { [name: string]: any }[] = []
+  private paused = false
+
+  constructor(input: MessageReader, output: number) {
+    this.input = input
+    this.output = output
+  }
+
+  // Handles requests until the client disconnects or the input ends.
+  serve() {
+    while (!this.finished) {
+      if (!this.readRequest()) return
+    }
+  }
+
+  private readRequest(): boolean {
+    let message: Request | null
+    try {
+      message = this.input.read()
+    } catch (e) {
+      // There's no request to fail, so malformed messages are dropped.
+      return true
+    }
+    if (message === null) return false
+    if (message.type === "request") this.handle(message)
+    return true
+  }
+
+  private handle(request: Request) {
+    try {
+      const body = this.request(request.command, request.arguments ?? {})
+      this.respond(request, true, body)
+    } catch (e) {
+      this.respond(request, false, undefined, String(e?.message ?? e))
+    }
+
+    // The client sends its breakpoints after this event.
+    if (request.command === "initialize") this.event("initialized")
+
+    // The program starts once it's been launched and the client has sent its
+    // breakpoints, whichever comes last.
+    if (this.program && this.configured && !this.debugger) {
+      this.start(this.program)
+    }
+  }
+
+  private request(command: string, args: any): any {
+    switch (command) {
+      case "initialize":
+        return {
+          supportsConfigurationDoneRequest: true,
+          supportsEvaluateForHovers: true,
+        }
+      case "launch":
+        this.program = this.load(args.program, args.stopOnEntry ?? false)
+        return undefined
+      case "setBreakpoints":
+        return this.setBreakpoints(args.source?.path, args.breakpoints ?? [])
+      case "configurationDone":
+        this.configured = true
+        return undefined
+      case "threads":
+        return { threads: [{ id: threadId, name: "main" }] }
+      case "stackTrace":
+        return this.stackTrace()
+      case "scopes":
+        return this.scopes(args.frameId)
+      case "variables":
+        return { variables: this.variablesOf(this.variables[args.variablesReference - 1] ?? {}) }
+      case "evaluate":
+        return this.evaluate(args.expression, args.frameId)
+      case "continue":
+        this.resume(() => this.debugger!.continue())
+        return { allThreadsContinued: true }
+      case "next":
+        this.resume(() => this.debugger!.stepOver())
+        return undefined
+      case "stepIn":
+        this.resume(() => this.debugger!.stepIn())
+        return undefined
+      case "stepOut":
+        this.resume(() => this.debugger!.stepOut())
+        return undefined
+      case "pause":
+        // The program only reads requests while it's paused, so it already is.
+        return undefined
+      case "terminate":
+      case "disconnect":
+        this.debugger?.terminate()
+        this.paused = false
+        if (command === "disconnect") this.finished = true
+        return undefined
+      default:
+        throw new RequestError(`Unsupported request '${command}'.`)
+    }
+  }
+
+  private load(path: string, stopOnEntry: boolean): Program {
+    if (typeof path !== "string") throw new RequestError("Launch needs a 'program' to run.")
+    const source = readFileSync(path, { encoding: "utf-8" })
+
+    const reporter = new ErrorReporter()
+    const loader = new FileLoader(reporter)
+    const interpreter = new Interpreter(reporter, {
+      stdout: (text) => this.event("output", { category: "stdout", output: text }),
+      loader,
+    })
+    const statements = new Parser(new Scanner(source, reporter).scanTokens(), reporter).parse()
+    if (!reporter.hadError) {
+      loader.loadImports(statements, path, interpreter)
+      new Resolver(interpreter, reporter).resolveStatements(statements)
+    }
+
+    const { sources } = loader
+    if (reporter.hadError) {
+      this.printDiagnostics(reporter, source, path, sources)
+      throw new RequestError(`${basename(path)} has errors.`)
+    }
+    return { path, source, statements, interpreter, reporter, sources, stopOnEntry }
+  }
+
+  // Runs the program to the end. Requests are read while it's stopped.
+  private start(program: Program) {
+    const { interpreter, reporter } = program
+    this.debugger = new Debugger(interpreter, (reason) => this.stopped(reason), program.stopOnEntry)
+    this.debugger.setBreakpoints(this.breakpoints.get(resolve(program.path)) ?? [])
+
+    try {
+      interpreter.interpret(program.statements)
+    } catch (e) {
+      if (!(e instanceof Terminated)) throw e
+    }
+
+    this.printDiagnostics(reporter, program.source, program.path, program.sources)
+    this.event("exited", { exitCode: reporter.hadRuntimeError ? 70 : 0 })
+    this.event("terminated")
+  }
+
+  private setBreakpoints(path: unknown, breakpoints: { line: number }[]): any {
+    if (typeof path !== "string") throw new RequestError("Breakpoints need a source path.")
+    const lines = breakpoints.map((breakpoint) => breakpoint.line)
+    const file = resolve(path)
+    this.breakpoints.set(file, lines)
+
+    // Before launch, there's no telling which file will run.
+    const inProgram = !this.program || resolve(this.program.path) === file
+    if (inProgram) this.debugger?.setBreakpoints(lines)
+    const message = inProgram ? undefined : "Only the launched program stops at breakpoints."
+    return { breakpoints: lines.map((line) => ({ verified: inProgram, line, message })) }
+  }
+
+  private stopped(reason: StopReason) {
+    this.frames = this.debugger!.frames()
+    this.variables = []
+    this.paused = true
+    this.event("stopped", { reason, threadId, allThreadsStopped: true })
+
+    while (this.paused) {
+      if (!this.readRequest()) {
+        this.debugger!.terminate()
+        return
+      }
+    }
+  }
+
+  private resume(step: () => void) {
+    if (!this.paused) throw new RequestError("The program is not paused.")
+    step()
+    this.paused = false
+  }
+
+  private stackTrace(): any {
+    const stackFrames = this.frames.map((frame, id) => ({
+      id,
+      name: frame.name,
+      line: frame.position.line,
+      column: frame.position.column,
+      source: { name: basename(this.program!.path), path: this.program!.path },
+    }))
+    return { stackFrames, totalFrames: stackFrames.length }
+  }
+
+  private scopes(frameId: number): any {
+    const frame = this.frame(frameId)
+    const scopes = this.debugger!.scopes(frame).map((scope) => ({
+      name: scope.name,
+      variablesReference: this.reference(scope.values),
+      expensive: false,
+    }))
+    return { scopes }
+  }
+
+  private evaluate(expression: string, frameId: number | undefined): any {
+    const result = this.debugger!.evaluate(expression, this.frame(frameId ?? 0))
+    if ("error" in result) throw new RequestError(result.error)
+    return {
+      result: describeValue(result.value),
+      variablesReference: this.childReference(result.value),
+    }
+  }
+
+  private variablesOf(values: { [name: string]: any }): any[] {
+    return Object.keys(values).map((name) => ({
+      name,
+      value: describeValue(values[name]),
+      variablesReference: this.childReference(values[name]),
+    }))
+  }
+
+  // A handle the client can pass to `variables` to see inside `value`, or 0
+  // when there's nothing inside.
+  private childReference(value: any): number {
+    const children = childrenOf(value)
+    return children ? this.reference(children) : 0
+  }
+
+  private reference(values: { [name: string]: any }): number {
+    this.variables.push(values)
+    return this.variables.length
+  }
+
+  private frame(frameId: number): DebugFrame {
+    const frame = this.frames[frameId]
+    if (!frame || !this.paused) throw new RequestError("The program is not paused.")
+    return frame
+  }
+
+  private printDiagnostics(
+    reporter: ErrorReporter,
+    source: string,
+    path: string,
+    sources: { [file: string]: string }
+  ) {
+    for (const diagnostic of reporter.diagnostics) {
+      const output = renderDiagnostic(diagnostic, source, path, sources) + "\n"
+      this.event("output", { category: "stderr", output })
+    }
+  }
+
+  private respond(request: Request, success: boolean, body?: any, message?: string) {
+    this.send({
+      type: "response",
+      request_seq: request.seq,
+      command: request.command,
+      success,
+      message,
+      body,
+    })
+  }
+
+  private event(event: string, body?: any) {
+    this.send({ type: "event", event, body })
+  }
+
+  private send(message: object) {
+    writeMessage(this.output, { seq: this.seq++, ...message })
+  }
+}
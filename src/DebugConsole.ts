@@ -0,0 +1,277 @@
+import { isatty } from "tty"
+import { StringDecoder } from "string_decoder"
+import { Stmt } from "./Ast"
+import { Interpreter } from "./Interpreter"
+import { readChunk } from "./Rpc"
+import { childrenOf, DebugFrame, Debugger, describeValue, StopReason, Terminated } from "./Debugger"
+
+// A gdb-style debugger in the terminal. The program starts paused on its
+// first statement so breakpoints can be set before it runs.
+
+const help = [
+  "break LINE (b)     stop whenever LINE runs; with no line, list breakpoints",
+  "clear [LINE]       remove the breakpoint on LINE, or all of them",
+  "continue (c)       run until the next breakpoint",
+  "step (s)           run to the next statement, entering calls",
+  "next (n)           run to the next statement in this function",
+  "finish (f)         run until this function returns",
+  "backtrace (bt)     show the call stack",
+  "frame N            inspect frame N of the backtrace",
+  "vars (v)           show the variables in the current frame",
+  "print EXPR (p)     evaluate EXPR in the current frame",
+  "list (l)           show the source around the current line",
+  "quit (q)           stop the program",
+].join("\n")
+
+export class DebugConsole {
+  private interpreter: Interpreter
+  private debugger: Debugger
+  private lines: string[]
+  private input: LineReader
+  // Commands are echoed when they come from a file or pipe, so a transcript
+  // reads like a session.
+  private echo = !isatty(0)
+  private frames: DebugFrame[] = []
+  private selectedFrame = 0
+  private lastCommand = ""
+
+  constructor(interpreter: Interpreter, source: string) {
+    this.interpreter = interpreter
+    this.debugger = new Debugger(interpreter, (reason) => this.stopped(reason), true)
+    this.lines = source.split("\n")
+    if (this.lines[this.lines.length - 1] === "") this.lines.pop()
+    this.input = new LineReader(0)
+  }
+
+  // Runs the program until it ends or the user quits.
+  run(statements: Stmt[]) {
+    try {
+      this.interpreter.interpret(statements)
+    } catch (e) {
+      if (e instanceof Terminated) return
+      throw e
+    }
+    console.log("Program finished.")
+  }
+
+  private stopped(reason: StopReason) {
+    this.frames = this.debugger.frames()
+    this.selectedFrame = 0
+    const frame = this.frames[0]
+    console.log(`Stopped at line ${frame.position.line} in ${frame.name} (${reason}).`)
+    this.showLine(frame.position.line)
+
+    while (true) {
+      process.stdout.write("(lox) ")
+      const line = this.input.read()
+      if (line === null) {
+        if (this.echo) console.log()
+        this.debugger.terminate()
+        return
+      }
+      if (this.echo) console.log(line)
+
+      // An empty line repeats the last command, so stepping is just Enter.
+      const command = line.trim() || this.lastCommand
+      this.lastCommand = command
+      if (this.execute(command)) return
+    }
+  }
+
+  // Runs a command, returning true when the program should carry on.
+  private execute(command: string): boolean {
+    const space = command.indexOf(" ")
+    const name = space === -1 ? command : command.substring(0, space)
+    const argument = space === -1 ? "" : command.substring(space + 1).trim()
+
+    switch (name) {
+      case "":
+        return false
+      case "b":
+      case "break":
+        this.setBreakpoint(argument)
+        return false
+      case "clear":
+        this.clearBreakpoint(argument)
+        return false
+      case "c":
+      case "continue":
+        this.debugger.continue()
+        return true
+      case "s":
+      case "step":
+        this.debugger.stepIn()
+        return true
+      case "n":
+      case "next":
+        this.debugger.stepOver()
+        return true
+      case "f":
+      case "finish":
+        this.debugger.stepOut()
+        return true
+      case "bt":
+      case "backtrace":
+        this.frames.forEach((frame, i) => console.log(this.describeFrame(frame, i)))
+        return false
+      case "frame":
+        this.selectFrame(argument)
+        return false
+      case "v":
+      case "vars":
+        this.showVariables()
+        return false
+      case "p":
+      case "print":
+        this.print(argument)
+        return false
+      case "l":
+      case "list":
+        this.list()
+        return false
+      case "q":
+      case "quit":
+        this.debugger.terminate()
+        return true
+      case "h":
+      case "help":
+        console.log(help)
+        return false
+      default:
+        console.log(`Unknown command '${name}'. Type 'help' for a list.`)
+        return false
+    }
+  }
+
+  private setBreakpoint(argument: string) {
+    const breakpoints = this.debugger.getBreakpoints()
+    if (!argument) {
+      if (breakpoints.length === 0) console.log("No breakpoints.")
+      breakpoints.forEach((breakpoint) => this.showLine(breakpoint))
+      return
+    }
+
+    const line = this.parseLine(argument)
+    if (line === null) return
+    this.debugger.setBreakpoints([...breakpoints, line])
+    console.log(`Breakpoint at line ${line}.`)
+  }
+
+  private clearBreakpoint(argument: string) {
+    if (!argument) {
+      this.debugger.setBreakpoints([])
+      console.log("Cleared all breakpoints.")
+      return
+    }
+
+    const line = this.parseLine(argument)
+    if (line === null) return
+    this.debugger.setBreakpoints(this.debugger.getBreakpoints().filter((other) => other !== line))
+    console.log(`Cleared the breakpoint at line ${line}.`)
+  }
+
+  private parseLine(argument: string): number | null {
+    const line = Number(argument)
+    if (!Number.isInteger(line) || line < 1 || line > this.lines.length) {
+      console.log(`'${argument}' is not a line in the script.`)
+      return null
+    }
+    return line
+  }
+
+  private selectFrame(argument: string) {
+    const index = Number(argument)
+    if (!Number.isInteger(index) || index < 0 || index >= this.frames.length) {
+      console.log(`There is no frame '${argument}'.`)
+      return
+    }
+    this.selectedFrame = index
+    console.log(this.describeFrame(this.frames[index], index))
+  }
+
+  private describeFrame(frame: DebugFrame, index: number): string {
+    const marker = index === this.selectedFrame ? "*" : " "
+    return `${marker} #${index} ${frame.name} at line ${frame.position.line}`
+  }
+
+  private showVariables() {
+    for (const scope of this.debugger.scopes(this.frames[this.selectedFrame])) {
+      const names = Object.keys(scope.values)
+      if (names.length === 0) continue
+      console.log(`${scope.name}:`)
+      for (const name of names) {
+        console.log(`  ${name} = ${describeValue(scope.values[name])}`)
+      }
+    }
+  }
+
+  // Values with something inside, like instances, also show one level of it.
+  private print(source: string) {
+    if (!source) {
+      console.log("Usage: print EXPR")
+      return
+    }
+
+    const result = this.debugger.evaluate(source, this.frames[this.selectedFrame])
+    if ("error" in result) {
+      console.log(`Error: ${result.error}`)
+      return
+    }
+    console.log(describeValue(result.value))
+    const children = childrenOf(result.value) ?? {}
+    for (const name of Object.keys(children)) {
+      console.log(`  ${name} = ${describeValue(children[name])}`)
+    }
+  }
+
+  private list() {
+    const current = this.frames[this.selectedFrame].position.line
+    const first = Math.max(1, current - 3)
+    const last = Math.min(this.lines.length, current + 3)
+    for (let line = first; line <= last; line++) {
+      this.showLine(line, line === current)
+    }
+  }
+
+  private showLine(line: number, current = false) {
+    const text = this.lines[line - 1] ?? ""
+    const marker = current ? ">" : " "
+    const label = String(line)
+    console.log(`${marker}${" ".repeat(Math.max(0, 4 - label.length))}${label} | ${text}`)
+  }
+}
+
+// Reads stdin a line at a time, blocking, since commands arrive while the
+// program is paused in the middle of running.
+class LineReader {
+  private fd: number
+  private buffered = ""
+  private ended = false
+  private decoder = new StringDecoder("utf-8")
+
+  constructor(fd: number) {
+    this.fd = fd
+  }
+
+  // The next line without its newline, or null at the end of the input.
+  read(): string | null {
+    while (true) {
+      const newline = this.buffered.indexOf("\n")
+      if (newline !== -1) {
+        const text = this.buffered.substring(0, newline).replace(/\r$/, "")
+        this.buffered = this.buffered.substring(newline + 1)
+        return text
+      }
+      if (this.ended) break
+
+      const chunk = readChunk(this.fd)
+      if (chunk === null) this.ended = true
+      else this.buffered += this.decoder.write(chunk)
+    }
+
+    if (this.buffered === "") return null
+    const line = this.buffered
+    this.buffered = ""
+    return line
+  }
+}
@@ -0,0 +1,261 @@
+import Scanner from "./Scanner"
+import Parser from "./Parser"
+import Environment from "./Enviornment"
+import { Stmt } from "./Ast"
+import { ErrorReporter, describeFrame } from "./Error"
+import { Resolver } from "./Resolver"
+import { Position, spanOf, tokenSpan } from "./Span"
+import {
+  Interpreter,
+  LoxError,
+  LoxInstance,
+  LoxList,
+  LoxMap,
+  LoxNamespace,
+  RuntimeError,
+  stringify,
+} from "./Interpreter"
+import { NativeFunction } from "./Native"
+
+// Pauses a running interpreter at breakpoints and steps, and answers
+// questions about where it stopped. Front ends, like the terminal debugger
+// and the debug adapter, do their talking in `onStop`: the program stays
+// paused until it returns, having picked how to carry on.
+
+export type StopReason = "entry" | "breakpoint" | "step"
+
+// How to carry on after a stop. Steps are relative to the call depth and
+// statement of the stop.
+type Resume =
+  | { kind: "entry" }
+  | { kind: "continue" }
+  | { kind: "in" }
+  | { kind: "over"; depth: number }
+  | { kind: "out"; depth: number }
+
+export type DebugFrame = {
+  // Like "add()" or "Point.init()", or "script" for the top level.
+  name: string
+  // Where the frame is: the paused statement, or the call it's waiting on.
+  position: Position
+  environment: Environment
+  base: Environment
+}
+
+// Named values to show, like the locals of a frame or an instance's fields.
+export type DebugScope = { name: string; values: { [name: string]: any } }
+
+export type EvaluationResult = { value: any } | { error: string }
+
+// Thrown through the program to stop it when the user quits.
+export class Terminated extends Error {}
+
+export class Debugger {
+  private interpreter: Interpreter
+  private onStop: (reason: StopReason) => void
+  private breakpoints = new Set<number>()
+  private resume: Resume
+  private current: Stmt | null = null
+  // The last statement that could have stopped, so a statement nested in it
+  // on the same line, like the body of `if (x) print x;`, doesn't stop again.
+  private previous: Stmt | null = null
+  private evaluating = false
+  private terminated = false
+
+  constructor(
+    interpreter: Interpreter,
+    onStop: (reason: StopReason) => void,
+    stopOnEntry: boolean
+  ) {
+    this.interpreter = interpreter
+    this.onStop = onStop
+    this.resume = stopOnEntry ? { kind: "entry" } : { kind: "continue" }
+    interpreter.setStatementHook((stmt) => this.beforeStatement(stmt))
+  }
+
+  setBreakpoints(lines: number[]) {
+    this.breakpoints = new Set(lines)
+  }
+
+  getBreakpoints(): number[] {
+    const lines: number[] = []
+    this.breakpoints.forEach((line) => lines.push(line))
+    return lines.sort((a, b) => a - b)
+  }
+
+  continue() {
+    this.resume = { kind: "continue" }
+  }
+
+  stepIn() {
+    this.resume = { kind: "in" }
+  }
+
+  stepOver() {
+    this.resume = { kind: "over", depth: this.depth() }
+  }
+
+  stepOut() {
+    this.resume = { kind: "out", depth: this.depth() }
+  }
+
+  // Ends the program at the next statement.
+  terminate() {
+    this.terminated = true
+  }
+
+  // The active frames, innermost first. Only meaningful while stopped.
+  frames(): DebugFrame[] {
+    const activations = this.interpreter.getActivations()
+    const frames = activations.map((activation, i) => {
+      const next = activations[i + 1]
+      let position = spanOf(this.current!).start
+      if (next) {
+        const callSite = next.frame!.callSite
+        position = callSite ? tokenSpan(callSite).start : { line: 0, column: 0, offset: 0 }
+      }
+      return {
+        name: activation.frame ? describeFrame(activation.frame) : "script",
+        position,
+        environment: activation.environment,
+        base: activation.base,
+      }
+    })
+    return frames.reverse()
+  }
+
+  // What's visible from a frame: its locals, the variables its function
+  // closed over, including `this` in a method, and the globals. Inner
+  // declarations hide outer ones with the same name.
+  scopes(frame: DebugFrame): DebugScope[] {
+    const locals: DebugScope = { name: "Locals", values: {} }
+    const closure: DebugScope = { name: "Closure", values: {} }
+    let scope = locals
+    let environment = frame.environment
+    while (environment.enclosing) {
+      for (const name of Object.keys(environment.values)) {
+        if (!scope.values.hasOwnProperty(name)) scope.values[name] = environment.values[name]
+      }
+      if (environment === frame.base) scope = closure
+      environment = environment.enclosing
+    }
+
+    const globals: DebugScope = { name: "Globals", values: {} }
+    for (const name of Object.keys(environment.values)) {
+      const value = environment.values[name]
+      // The standard library would drown out the program's own globals.
+      if (!(value instanceof NativeFunction)) globals.values[name] = value
+    }
+
+    const scopes = [locals]
+    if (Object.keys(closure.values).length) scopes.push(closure)
+    scopes.push(globals)
+    return scopes
+  }
+
+  // Evaluates `source` as an expression in `frame`. It can read and assign
+  // the frame's variables and call functions, which run without stopping.
+  evaluate(source: string, frame: DebugFrame): EvaluationResult {
+    const reporter = new ErrorReporter()
+    const expr = new Parser(new Scanner(source, reporter).scanTokens(), reporter).parseExpression()
+    if (!expr || reporter.hadError) return { error: reporter.diagnostics[0].message }
+
+    // Every environment but the globals is a scope to resolve against.
+    const scopes: string[][] = []
+    for (let env = frame.environment; env.enclosing; env = env.enclosing) {
+      scopes.unshift(Object.keys(env.values))
+    }
+    new Resolver(this.interpreter, reporter).resolveExpressionIn(expr, scopes)
+    if (reporter.hadError) return { error: reporter.diagnostics[0].message }
+
+    this.evaluating = true
+    try {
+      return { value: this.interpreter.evaluateIn(expr, frame.environment) }
+    } catch (e) {
+      if (e instanceof RuntimeError) return { error: e.message }
+      throw e
+    } finally {
+      this.evaluating = false
+    }
+  }
+
+  private beforeStatement(stmt: Stmt) {
+    if (this.terminated) throw new Terminated()
+    // Blocks only hold other statements, which get a chance to stop. Code
+    // from imported modules runs without stopping, since lines here are
+    // the script's.
+    if (this.evaluating || stmt.type === "BlockStmt" || spanOf(stmt).file !== undefined) return
+
+    const previous = this.previous
+    this.previous = stmt
+    if (previous && nestedOnSameLine(previous, stmt)) return
+
+    const reason = this.stopReason(stmt)
+    if (!reason) return
+
+    this.current = stmt
+    this.resume = { kind: "continue" }
+    this.onStop(reason)
+    this.current = null
+    if (this.terminated) throw new Terminated()
+  }
+
+  private stopReason(stmt: Stmt): StopReason | null {
+    const resume = this.resume
+    switch (resume.kind) {
+      case "entry":
+        return "entry"
+      case "in":
+        return "step"
+      case "over":
+        if (this.depth() <= resume.depth) return "step"
+        break
+      case "out":
+        if (this.depth() < resume.depth) return "step"
+        break
+      case "continue":
+        break
+    }
+    return this.breakpoints.has(spanOf(stmt).start.line) ? "breakpoint" : null
+  }
+
+  private depth(): number {
+    return this.interpreter.getCallStack().length
+  }
+}
+
+function nestedOnSameLine(outer: Stmt, inner: Stmt): boolean {
+  const outerSpan = spanOf(outer)
+  const innerSpan = spanOf(inner)
+  return (
+    outer !== inner &&
+    outerSpan.start.line === innerSpan.start.line &&
+    outerSpan.start.offset <= innerSpan.start.offset &&
+    innerSpan.end.offset <= outerSpan.end.offset
+  )
+}
+
+// How a value reads in the debugger. Unlike `print`, strings are quoted so
+// they can't be mistaken for other values.
+export function describeValue(value: any): string {
+  return typeof value === "string" ? JSON.stringify(value) : stringify(value)
+}
+
+// The values inside an instance, list, map, module or error, or null for
+// values that have nothing inside.
+export function childrenOf(value: any): { [name: string]: any } | null {
+  if (value instanceof LoxInstance) return value.fields
+  if (value instanceof LoxNamespace) return value.members
+  if (value instanceof LoxError) return { message: value.message, line: value.line }
+
+  const children: { [name: string]: any } = {}
+  if (value instanceof LoxList) {
+    value.elements.forEach((element, i) => (children[`[${i}]`] = element))
+    return children
+  }
+  if (value instanceof LoxMap) {
+    value.entries.forEach((entry, key) => (children[`[${describeValue(key)}]`] = entry))
+    return children
+  }
+  return null
+}
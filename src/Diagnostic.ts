@@ -0,0 +1,116 @@
+import { Span } from "./Span"
+
+export type Severity = "error" | "warning" | "note"
+
+export enum DiagnosticCode {
+  // Scanning.
+  UnexpectedCharacter = "E0001",
+  UnterminatedString = "E0002",
+  UnterminatedComment = "E0003",
+  InvalidEscape = "E0004",
+
+  // Parsing.
+  UnexpectedToken = "E0100",
+  ExpectedExpression = "E0101",
+  InvalidAssignmentTarget = "E0102",
+  TooManyArguments = "E0103",
+
+  // Resolving.
+  SelfReferencingInitializer = "E0200",
+  DuplicateDeclaration = "E0201",
+  TopLevelReturn = "E0202",
+  ReturnValueFromInitializer = "E0203",
+  ThisOutsideClass = "E0204",
+  SuperOutsideClass = "E0205",
+  SuperWithoutSuperclass = "E0206",
+  SelfInheritance = "E0207",
+  ImportNotAtTopLevel = "E0208",
+  ModuleNotFound = "E0209",
+  ImportCycle = "E0210",
+  JumpOutsideLoop = "E0211",
+  ThisInClassMethod = "E0212",
+  SuperInClassMethod = "E0213",
+
+  // Running.
+  RuntimeError = "E0300",
+
+  // Linting. These are warnings and never stop a program from running.
+  UnusedVariable = "W0001",
+  ShadowedVariable = "W0002",
+  UnreachableCode = "W0003",
+  ConstantCondition = "W0004",
+  UndefinedMethod = "W0005",
+}
+
+export type DiagnosticNote = { message: string; span: Span | null }
+
+export type Diagnostic = {
+  severity: Severity
+  code: DiagnosticCode
+  message: string
+  // Null when the problem has no place in the source, e.g. a host calling a
+  // function that doesn't exist.
+  span: Span | null
+  notes: DiagnosticNote[]
+}
+
+export function isRuntimeDiagnostic(diagnostic: Diagnostic): boolean {
+  return diagnostic.code === DiagnosticCode.RuntimeError
+}
+
+// Renders a diagnostic the way rustc and tsc do: a header, the location, and
+// the offending source line with the span underlined.
+//
+//   error[E0300]: Operand must be a number.
+//    --> main.lox:2:24
+//     |
+//   2 | fun negate(n) { return -n; }
+//     |                        ^
+//     = note: in negate() at main.lox:2:24
+//     = note: in script at main.lox:3:11
+//
+// `source` and `file` are the file being run. Spans in other files, like
+// the modules it imports, take their text from `sources`.
+export function renderDiagnostic(
+  diagnostic: Diagnostic,
+  source: string,
+  file: string,
+  sources: { [file: string]: string } = {}
+): string {
+  const lines = [`${diagnostic.severity}[${diagnostic.code}]: ${diagnostic.message}`]
+  const span = diagnostic.span
+  if (span) {
+    const text = span.file === undefined ? source : sources[span.file] ?? ""
+    lines.push(...renderSnippet(span, text, span.file ?? file))
+  }
+
+  for (const note of diagnostic.notes) {
+    if (note.span) {
+      const { line, column } = note.span.start
+      lines.push(`  = note: ${note.message} at ${note.span.file ?? file}:${line}:${column}`)
+    } else {
+      lines.push(`  = note: ${note.message}`)
+    }
+  }
+
+  return lines.join("\n")
+}
+
+function renderSnippet(span: Span, source: string, file: string): string[] {
+  const { line, column } = span.start
+  const text = source.split("\n")[line - 1] ?? ""
+  const gutter = " ".repeat(String(line).length)
+
+  // Spans running onto later lines are underlined to the end of their first line.
+  const end = span.end.line === line ? span.end.column : text.length + 1
+  const width = Math.max(1, end - column)
+  // Keep tabs so the carets line up with the text above them.
+  const padding = text.substring(0, column - 1).replace(/[^\t]/g, " ")
+
+  return [
+    `${gutter}--> ${file}:${line}:${column}`,
+    `${gutter} |`,
+    `${line} | ${text.replace(/\r$/, "")}`,
+    `${gutter} | ${padding}${"^".repeat(width)}`,
+  ]
+}
@@ -0,0 +1,208 @@
+import Token from "./Token"
+import TokenType from "./TokenType"
+import { Expr, Stmt, FunctionStmt, FunctionExpr, classMembers } from "./Ast"
+import { spanOf } from "./Span"
+import { exhaustiveCheck } from "./exhaustiveCheck"
+
+// Readable dumps of the scanner and parser output, for debugging the grammar.
+
+// One token per line: position, type, lexeme and the literal if it has one.
+export function dumpTokens(tokens: Token[]): string {
+  return tokens
+    .map((token) => {
+      const parts = [
+        `${token.line}:${token.column}`,
+        TokenType[token.type],
+        JSON.stringify(token.lexeme),
+      ]
+      if (token.literal !== null) parts.push(JSON.stringify(token.literal))
+      return parts.join(" ")
+    })
+    .join("\n")
+}
+
+// The tree as S-expressions, one statement per line with nested statements
+// indented under their parent.
+export function dumpAst(statements: Stmt[]): string {
+  return statements.map((stmt) => stmtToSexpr(stmt, "")).join("\n")
+}
+
+function stmtToSexpr(stmt: Stmt, indent: string): string {
+  const nested = (child: Stmt) => "\n" + stmtToSexpr(child, indent + "  ")
+
+  switch (stmt.type) {
+    case "ExpressionStmt":
+      return `${indent}(expr ${exprToSexpr(stmt.expression)})`
+    case "PrintStmt":
+      return `${indent}(print ${exprToSexpr(stmt.expression)})`
+    case "VarStmt":
+      if (!stmt.initializer) return `${indent}(var ${stmt.name.lexeme})`
+      return `${indent}(var ${stmt.name.lexeme} ${exprToSexpr(stmt.initializer)})`
+    case "BlockStmt":
+      return `${indent}(block${stmt.statements.map(nested).join("")})`
+    case "IfStmt": {
+      const otherwise = stmt.elseBranch ? nested(stmt.elseBranch) : ""
+      return `${indent}(if ${exprToSexpr(stmt.condition)}${nested(stmt.thenBranch)}${otherwise})`
+    }
+    case "WhileStmt":
+      return `${indent}(while ${exprToSexpr(stmt.condition)}${nested(stmt.body)})`
+    case "ForStmt": {
+      const initializer = stmt.initializer ? stmtToSexpr(stmt.initializer, "") : "nil"
+      const condition = stmt.condition ? exprToSexpr(stmt.condition) : "nil"
+      const increment = stmt.increment ? exprToSexpr(stmt.increment) : "nil"
+      return `${indent}(for ${initializer} ${condition} ${increment}${nested(stmt.body)})`
+    }
+    case "FunctionStmt":
+      return functionToSexpr(stmt, indent)
+    case "ReturnStmt":
+      if (!stmt.value) return `${indent}(return)`
+      return `${indent}(return ${exprToSexpr(stmt.value)})`
+    case "BreakStmt":
+      return `${indent}(break)`
+    case "ContinueStmt":
+      return `${indent}(continue)`
+    case "ClassStmt": {
+      const superclass = stmt.superclass ? ` < ${stmt.superclass.name.lexeme}` : ""
+      const members = classMembers(stmt).map((member) => "\n" + stmtToSexpr(member, indent + "  "))
+      return `${indent}(class ${stmt.name.lexeme}${superclass}${members.join("")})`
+    }
+    case "ImportStmt":
+      return `${indent}(import ${stmt.path.lexeme} ${stmt.name.lexeme})`
+    case "ThrowStmt":
+      return `${indent}(throw ${exprToSexpr(stmt.value)})`
+    case "TryStmt": {
+      const clause = (header: string, body: Stmt) =>
+        `\n${indent}  (${header}\n${stmtToSexpr(body, indent + "    ")})`
+      const catchClause = stmt.catchClause
+        ? clause(`catch ${stmt.catchClause.name.lexeme}`, stmt.catchClause.body)
+        : ""
+      const finallyClause = stmt.finallyClause ? clause("finally", stmt.finallyClause.body) : ""
+      return `${indent}(try${nested(stmt.body)}${catchClause}${finallyClause})`
+    }
+    default:
+      return exhaustiveCheck(stmt)
+  }
+}
+
+// Getters print as `get` with no parameter list, and class methods with a
+// `class-` prefix, like `(class-fun origin ())`.
+function functionToSexpr(stmt: FunctionStmt, indent: string): string {
+  const kind = stmt.isGetter ? "get" : "fun"
+  const head = stmt.keyword?.type === TokenType.CLASS ? `class-${kind}` : kind
+  const params = stmt.isGetter ? "" : ` (${stmt.params.map((param) => param.lexeme).join(" ")})`
+  const body = stmt.body.map((child) => "\n" + stmtToSexpr(child, indent + "  "))
+  return `${indent}(${head} ${stmt.name.lexeme}${params}${body.join("")})`
+}
+
+// Expressions are printed on one line, so an anonymous function's body is too.
+function functionExprToSexpr(expr: FunctionExpr): string {
+  const params = expr.params.map((param) => param.lexeme).join(" ")
+  const body = expr.body.map((child) => " " + stmtToSexpr(child, "").replace(/\n\s*/g, " "))
+  return `(fun (${params})${body.join("")})`
+}
+
+function exprToSexpr(expr: Expr): string {
+  const parenthesize = (name: string, ...parts: Expr[]) => {
+    return `(${[name, ...parts.map(exprToSexpr)].join(" ")})`
+  }
+
+  switch (expr.type) {
+    case "BinaryExpr":
+    case "LogicalExpr":
+      return parenthesize(expr.operator.lexeme, expr.left, expr.right)
+    case "GroupingExpr":
+      return parenthesize("group", expr.expression)
+    case "LiteralExpr":
+      return expr.token.lexeme
+    case "UnaryExpr":
+      return parenthesize(expr.operator.lexeme, expr.right)
+    case "VariableExpr":
+      return expr.name.lexeme
+    case "AssignExpr":
+      if (expr.operator.type !== TokenType.EQUAL) {
+        return `(${expr.operator.lexeme} ${expr.name.lexeme} ${exprToSexpr(expr.value)})`
+      }
+      return `(assign ${expr.name.lexeme} ${exprToSexpr(expr.value)})`
+    case "CallExpr":
+      return parenthesize("call", expr.callee, ...expr.arguments)
+    case "GetExpr": {
+      const head = expr.optional ? "get?" : "get"
+      return `(${head} ${exprToSexpr(expr.object)} ${expr.name.lexeme})`
+    }
+    case "SetExpr":
+      if (expr.operator.type !== TokenType.EQUAL) {
+        const property = `(get ${exprToSexpr(expr.object)} ${expr.name.lexeme})`
+        return `(${expr.operator.lexeme} ${property} ${exprToSexpr(expr.value)})`
+      }
+      return `(set ${exprToSexpr(expr.object)} ${expr.name.lexeme} ${exprToSexpr(expr.value)})`
+    case "UpdateExpr": {
+      const fix = expr.prefix ? "pre" : "post"
+      return `(${fix}${expr.operator.lexeme} ${exprToSexpr(expr.target)})`
+    }
+    case "ThisExpr":
+      return "this"
+    case "SuperExpr":
+      return `(super ${expr.method.lexeme})`
+    case "ListExpr":
+      return parenthesize("list", ...expr.elements)
+    case "MapExpr": {
+      const entries = expr.entries.map(
+        (entry) => ` ${parenthesize("entry", entry.key, entry.value)}`
+      )
+      return `(map${entries.join("")})`
+    }
+    case "IndexGetExpr":
+      return parenthesize("index", expr.object, expr.index)
+    case "IndexSetExpr":
+      return parenthesize("index-set", expr.object, expr.index, expr.value)
+    case "FunctionExpr":
+      return functionExprToSexpr(expr)
+    case "InterpolationExpr": {
+      const parts = expr.strings.map((part, i) => {
+        const embedded = expr.expressions[i]
+        return JSON.stringify(part.literal) + (embedded ? " " + exprToSexpr(embedded) : "")
+      })
+      return `(interpolate ${parts.join(" ")})`
+    }
+    case "ConditionalExpr":
+      return parenthesize("?:", expr.condition, expr.thenBranch, expr.elseBranch)
+    case "OptionalChainExpr":
+      return parenthesize("chain", expr.expression)
+    default:
+      return exhaustiveCheck(expr)
+  }
+}
+
+// Expressions the resolver can assign a scope depth to.
+const resolvable = ["VariableExpr", "AssignExpr", "ThisExpr", "SuperExpr"]
+
+// The tree as plain JSON. Every node keeps its fields in the order the parser
+// builds them, plus a `span`; tokens become their lexemes. Variable references also get
+// the `depth` the resolver chose, or null for globals.
+export function astToJson(statements: Stmt[], depths: Map<Expr, number>): any {
+  const convert = (value: any): any => {
+    if (Array.isArray(value)) return value.map(convert)
+    if (value === null || typeof value !== "object") return value
+    if (isToken(value)) return value.lexeme
+
+    const json: { [key: string]: any } = {}
+    if (typeof value.type === "string") {
+      json.type = value.type
+      const span = spanOf(value)
+      json.span = `${span.start.line}:${span.start.column}-${span.end.line}:${span.end.column}`
+    }
+    for (const key of Object.keys(value)) {
+      if (key !== "type") json[key] = convert(value[key])
+    }
+    if (resolvable.indexOf(value.type) !== -1) {
+      json.depth = depths.has(value) ? depths.get(value) : null
+    }
+    return json
+  }
+
+  return statements.map(convert)
+}
+
+function isToken(value: any): value is Token {
+  return typeof value.lexeme === "string" && typeof value.offset === "number"
+}
@@ -1,36 +1,99 @@
 import Token from "./Token"
-import TokenType from "./TokenType"
-import { RuntimeError } from "./Interpreter"
+import { CallFrame, RuntimeError } from "./Interpreter"
+import { Diagnostic, DiagnosticCode, DiagnosticNote, isRuntimeDiagnostic } from "./Diagnostic"
+import { Span, tokenSpan } from "./Span"
 
-let hadError = false
-let hadRuntimeError = false
+// Collects the diagnostics reported while scanning, parsing, resolving and
+// running a program. Nothing is printed here; callers decide how to show them.
+export class ErrorReporter {
+  diagnostics: Diagnostic[] = []
+  hadError = false
+  hadRuntimeError = false
 
-export function error(line: number, message: string) {
-  report(line, "", message)
-}
+  error(span: Span | null, code: DiagnosticCode, message: string) {
+    this.report({ severity: "error", code, message, span, notes: [] })
+  }
+
+  tokenError(token: Token, code: DiagnosticCode, message: string) {
+    this.error(tokenSpan(token), code, message)
+  }
 
-function report(line: number, where: string, message: string) {
-  console.error(`[line ${line}] Error ${where}: ${message}`)
-  hadError = true
+  runtimeError(e: RuntimeError) {
+    this.report({
+      severity: "error",
+      code: DiagnosticCode.RuntimeError,
+      message: e.message,
+      span: tokenSpan(e.token),
+      notes: traceback(e),
+    })
+  }
+
+  report(diagnostic: Diagnostic) {
+    this.diagnostics.push(diagnostic)
+    if (diagnostic.severity !== "error") return
+
+    if (isRuntimeDiagnostic(diagnostic)) {
+      this.hadRuntimeError = true
+    } else {
+      this.hadError = true
+    }
+  }
+
+  reset() {
+    this.diagnostics = []
+    this.hadError = false
+    this.hadRuntimeError = false
+  }
 }
 
-export function tokenError(token: Token, message: string) {
-  if (token.type === TokenType.EOF) {
-    report(token.line, " at end", message)
-  } else {
-    report(token.line, " at '" + token.lexeme + "'", message)
+// One note per active call, innermost first, each pointing at where that call
+// was executing when the error was thrown.
+function traceback(e: RuntimeError): DiagnosticNote[] {
+  const frames = e.callStack ?? []
+  if (frames.length === 0) return []
+
+  const notes: DiagnosticNote[] = []
+  let location: Token | null = e.token
+  for (let i = frames.length - 1; i >= 0 && location; i--) {
+    notes.push({ message: `in ${describeFrame(frames[i])}`, span: tokenSpan(location) })
+    location = frames[i].callSite
   }
+
+  if (location) {
+    notes.push({ message: "in script", span: tokenSpan(location) })
+  }
+  return collapseRepeats(notes)
 }
 
-export function setHadError(e: boolean) {
-  hadError = e
+// Deep recursion leaves long runs of the same note. Each run is shown once,
+// followed by how many more times it repeated.
+function collapseRepeats(notes: DiagnosticNote[]): DiagnosticNote[] {
+  const collapsed: DiagnosticNote[] = []
+  let start = 0
+  while (start < notes.length) {
+    let end = start + 1
+    while (end < notes.length && sameNote(notes[start], notes[end])) end++
+
+    collapsed.push(notes[start])
+    const repeats = end - start - 1
+    if (repeats === 1) {
+      collapsed.push(notes[start])
+    } else if (repeats > 1) {
+      collapsed.push({ message: `previous frame repeated ${repeats} more times`, span: null })
+    }
+    start = end
+  }
+  return collapsed
 }
 
-export function getHadError(): boolean {
-  return hadError
+function sameNote(a: DiagnosticNote, b: DiagnosticNote): boolean {
+  return (
+    a.message === b.message &&
+    a.span?.file === b.span?.file &&
+    a.span?.start.offset === b.span?.start.offset
+  )
 }
 
-export function runtimeError(e: RuntimeError) {
-  console.error(`${e.message}\n [line ${e?.token?.line}]`)
-  hadRuntimeError = true
+export function describeFrame(frame: CallFrame): string {
+  return frame.className ? `${frame.className}.${frame.functionName}()` : `${frame.functionName}()`
 }
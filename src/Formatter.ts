@@ -0,0 +1,474 @@
+import Scanner, { Comment } from "./Scanner"
+import Parser from "./Parser"
+import Token from "./Token"
+import TokenType from "./TokenType"
+import { ErrorReporter } from "./Error"
+import { BinaryExpr, Expr, LogicalExpr, Stmt, FunctionStmt, classMembers } from "./Ast"
+import { spanOf } from "./Span"
+import { exhaustiveCheck } from "./exhaustiveCheck"
+
+const maxWidth = 80
+const indentWidth = 2
+
+// The binary operators the parser reads at each precedence, which chain left
+// to right. `**` chains the other way, so it isn't here.
+const operatorLevels: TokenType[][] = [
+  [TokenType.QUESTION_QUESTION],
+  [TokenType.OR],
+  [TokenType.AND],
+  [TokenType.BANG_EQUAL, TokenType.EQUAL_EQUAL],
+  [TokenType.GREATER, TokenType.GREATER_EQUAL, TokenType.LESS, TokenType.LESS_EQUAL],
+  [TokenType.MINUS, TokenType.PLUS],
+  [TokenType.SLASH, TokenType.STAR, TokenType.PERCENT],
+]
+
+// A layout-independent description of the output, printed by `render`. A
+// group is laid out on one line when it fits, otherwise every line inside it
+// breaks. This is the approach from Wadler's "A prettier printer".
+type Doc =
+  | string
+  | Doc[]
+  | { kind: "group"; contents: Doc }
+  | { kind: "indent"; contents: Doc }
+  | { kind: "line"; flat: string; hard: boolean }
+  // Printed as is but takes no room when deciding whether a group fits, so a
+  // trailing comment never forces the code before it to wrap.
+  | { kind: "trailing"; text: string }
+
+type Mode = "flat" | "break"
+
+// A space when the group is flat, otherwise a newline.
+const line: Doc = { kind: "line", flat: " ", hard: false }
+// Nothing when the group is flat, otherwise a newline.
+const softline: Doc = { kind: "line", flat: "", hard: false }
+// Always a newline.
+const hardline: Doc = { kind: "line", flat: "", hard: true }
+
+function group(contents: Doc): Doc {
+  return { kind: "group", contents }
+}
+
+function indent(contents: Doc): Doc {
+  return { kind: "indent", contents }
+}
+
+function join(separator: Doc, docs: Doc[]): Doc[] {
+  const parts: Doc[] = []
+  docs.forEach((doc, i) => {
+    if (i > 0) parts.push(separator)
+    parts.push(doc)
+  })
+  return parts
+}
+
+// `open`, the items separated by commas, then `close`. Breaks to one item per
+// line when it doesn't fit.
+function bracketed(open: string, items: Doc[], close: string): Doc {
+  if (items.length === 0) return open + close
+  return group([open, indent([softline, join([",", line], items)]), softline, close])
+}
+
+type Command = { indent: number; mode: Mode; doc: Doc }
+
+function render(root: Doc): string {
+  let output = ""
+  let column = 0
+  // Indentation is written lazily so blank lines don't get trailing spaces.
+  let pendingIndent: number | null = null
+  const commands: Command[] = [{ indent: 0, mode: "break", doc: root }]
+
+  const write = (text: string) => {
+    if (!text) return
+    if (pendingIndent !== null) {
+      output += " ".repeat(pendingIndent)
+      column = pendingIndent
+      pendingIndent = null
+    }
+    output += text
+    const newline = text.lastIndexOf("\n")
+    column = newline === -1 ? column + text.length : text.length - newline - 1
+  }
+
+  while (commands.length) {
+    const { indent: level, mode, doc } = commands.pop()!
+    if (typeof doc === "string") {
+      write(doc)
+    } else if (Array.isArray(doc)) {
+      for (let i = doc.length - 1; i >= 0; i--) {
+        commands.push({ indent: level, mode, doc: doc[i] })
+      }
+    } else if (doc.kind === "indent") {
+      commands.push({ indent: level + indentWidth, mode, doc: doc.contents })
+    } else if (doc.kind === "trailing") {
+      write(doc.text)
+    } else if (doc.kind === "group") {
+      const flat = { indent: level, mode: "flat" as Mode, doc: doc.contents }
+      const fitsFlat = mode === "flat" || fits(flat, commands, maxWidth - column)
+      commands.push(fitsFlat ? flat : { indent: level, mode: "break", doc: doc.contents })
+    } else if (mode === "flat" && !doc.hard) {
+      write(doc.flat)
+    } else {
+      output += "\n"
+      column = 0
+      pendingIndent = level
+    }
+  }
+
+  return output
+}
+
+// Whether `next` fits in `width` columns, along with whatever follows it up
+// to the next line break.
+function fits(next: Command, rest: Command[], width: number): boolean {
+  const commands: { mode: Mode; doc: Doc }[] = [next]
+  let restIndex = rest.length
+
+  while (width >= 0) {
+    if (commands.length === 0) {
+      if (restIndex === 0) return true
+      commands.push(rest[--restIndex])
+      continue
+    }
+
+    const { mode, doc } = commands.pop()!
+    if (typeof doc === "string") {
+      const newline = doc.indexOf("\n")
+      if (newline !== -1) return width - newline >= 0
+      width -= doc.length
+    } else if (Array.isArray(doc)) {
+      for (let i = doc.length - 1; i >= 0; i--) {
+        commands.push({ mode, doc: doc[i] })
+      }
+    } else if (doc.kind === "indent" || doc.kind === "group") {
+      commands.push({ mode, doc: doc.contents })
+    } else if (doc.kind === "trailing") {
+      continue
+    } else if (mode === "break" || doc.hard) {
+      return true
+    } else {
+      width -= doc.flat.length
+    }
+  }
+
+  return false
+}
+
+// Formats Lox source, returning null when it doesn't parse. The parse errors
+// are left in `reporter`.
+export function format(source: string, reporter: ErrorReporter): string | null {
+  const scanner = new Scanner(source, reporter)
+  const tokens = scanner.scanTokens()
+  const statements = new Parser(tokens, reporter).parse()
+  if (reporter.hadError || !statements) return null
+
+  const formatter = new Formatter(scanner.comments)
+  return render(formatter.program(statements))
+}
+
+type Positioned = { doc: Doc; startLine: number; endLine: number }
+
+// Turns statements back into source. The AST has no comments, so they are
+// pulled in from the scanner's list by position: each one is printed before
+// the first statement that starts after it, or after a statement ending on
+// the same line.
+class Formatter {
+  private comments: Comment[]
+  private nextComment = 0
+
+  constructor(comments: Comment[]) {
+    this.comments = comments
+  }
+
+  program(statements: Stmt[]): Doc {
+    const body = this.statementList(statements, Infinity)
+    return body.length ? [body, hardline] : ""
+  }
+
+  // Statements one per line, with their comments, keeping at most one blank
+  // line wherever the source had some. `end` is the offset of the closing
+  // brace; comments before it still belong to this list.
+  private statementList(statements: Stmt[], end: number): Doc[] {
+    const parts: Doc[] = []
+    let lastLine: number | null = null
+    const add = (item: Positioned) => {
+      if (lastLine !== null) {
+        parts.push(hardline)
+        if (item.startLine > lastLine + 1) parts.push(hardline)
+      }
+      parts.push(item.doc)
+      lastLine = item.endLine
+    }
+
+    for (const stmt of statements) {
+      const span = spanOf(stmt)
+      this.takeComments(span.start.offset).forEach(add)
+
+      let doc = this.stmt(stmt)
+      // Comments inside an expression have nowhere to go, so they move up.
+      this.takeComments(span.end.offset).forEach(add)
+
+      const trailing = this.comments[this.nextComment]
+      if (
+        trailing &&
+        trailing.span.start.line === span.end.line &&
+        trailing.span.start.offset < end
+      ) {
+        doc = [doc, { kind: "trailing", text: " " + this.commentText(trailing) }]
+        this.nextComment++
+      }
+      add({ doc, startLine: span.start.line, endLine: span.end.line })
+    }
+
+    this.takeComments(end).forEach(add)
+    return parts
+  }
+
+  private takeComments(before: number): Positioned[] {
+    const taken: Positioned[] = []
+    while (
+      this.nextComment < this.comments.length &&
+      this.comments[this.nextComment].span.start.offset < before
+    ) {
+      const comment = this.comments[this.nextComment++]
+      taken.push({
+        doc: this.commentText(comment),
+        startLine: comment.span.start.line,
+        endLine: comment.span.end.line,
+      })
+    }
+    return taken
+  }
+
+  private commentText(comment: Comment): string {
+    return comment.text.replace(/\s+$/, "")
+  }
+
+  private block(statements: Stmt[], rightBrace: Token): Doc {
+    const body = this.statementList(statements, rightBrace.offset)
+    if (body.length === 0) return "{}"
+    return ["{", indent([hardline, body]), hardline, "}"]
+  }
+
+  // The body of an if, while or for. Blocks stay on the same line; anything
+  // else goes on the same line if it fits and on the next one otherwise.
+  private body(stmt: Stmt): Doc {
+    if (stmt.type === "BlockStmt") return [" ", this.stmt(stmt)]
+    return group(indent([line, this.stmt(stmt)]))
+  }
+
+  // `a + b - c` and the like, operators of one precedence in a row. Breaks
+  // before every operator when it doesn't fit on one line.
+  private operatorChain(expr: BinaryExpr | LogicalExpr): Doc {
+    const links = [expr]
+    let first = expr.left
+    while (
+      (first.type === "BinaryExpr" || first.type === "LogicalExpr") &&
+      sameLevel(first.operator, expr.operator)
+    ) {
+      links.unshift(first)
+      first = first.left
+    }
+
+    // Operands are formatted left to right, so function bodies in them take
+    // their comments in order.
+    const head = this.expr(first)
+    const rest = links.map((link) => [line, link.operator.lexeme, " ", this.expr(link.right)])
+    return group([head, indent(rest)])
+  }
+
+  private stmt(stmt: Stmt): Doc {
+    switch (stmt.type) {
+      case "ExpressionStmt":
+        return [this.expr(stmt.expression), ";"]
+      case "PrintStmt":
+        return ["print ", this.expr(stmt.expression), ";"]
+      case "VarStmt":
+        if (!stmt.initializer) return ["var ", stmt.name.lexeme, ";"]
+        return ["var ", stmt.name.lexeme, " = ", this.expr(stmt.initializer), ";"]
+      case "BlockStmt":
+        return this.block(stmt.statements, stmt.rightBrace)
+      case "IfStmt": {
+        const condition = ["if (", this.expr(stmt.condition), ")"]
+        if (!stmt.elseBranch) return [condition, this.body(stmt.thenBranch)]
+
+        // The then branch goes first so it claims the comments inside it.
+        const thenBranch = this.stmt(stmt.thenBranch)
+        const elseBranch = stmt.elseBranch
+        const otherwise =
+          elseBranch.type === "IfStmt" ? [" ", this.stmt(elseBranch)] : this.body(elseBranch)
+        if (stmt.thenBranch.type === "BlockStmt") {
+          return [condition, " ", thenBranch, " else", otherwise]
+        }
+        // Without braces the whole statement stays on one line if it can.
+        return group([condition, indent([line, thenBranch]), line, "else", otherwise])
+      }
+      case "WhileStmt":
+        return ["while (", this.expr(stmt.condition), ")", this.body(stmt.body)]
+      case "ForStmt":
+        return [
+          "for (",
+          stmt.initializer ? this.stmt(stmt.initializer) : ";",
+          stmt.condition ? [" ", this.expr(stmt.condition)] : "",
+          ";",
+          stmt.increment ? [" ", this.expr(stmt.increment)] : "",
+          ")",
+          this.body(stmt.body),
+        ]
+      case "FunctionStmt":
+        return [stmt.keyword ? stmt.keyword.lexeme + " " : "", this.function(stmt)]
+      case "ReturnStmt":
+        if (!stmt.value) return "return;"
+        return ["return ", this.expr(stmt.value), ";"]
+      case "BreakStmt":
+        return "break;"
+      case "ContinueStmt":
+        return "continue;"
+      case "ClassStmt": {
+        const header: Doc[] = ["class ", stmt.name.lexeme]
+        if (stmt.superclass) header.push(" < ", stmt.superclass.name.lexeme)
+
+        const body = this.statementList(classMembers(stmt), stmt.rightBrace.offset)
+        if (body.length === 0) return [header, " {}"]
+        return [header, " {", indent([hardline, body]), hardline, "}"]
+      }
+      case "ImportStmt":
+        return ["import ", stmt.path.lexeme, " as ", stmt.name.lexeme, ";"]
+      case "ThrowStmt":
+        return ["throw ", this.expr(stmt.value), ";"]
+      case "TryStmt": {
+        const parts: Doc[] = ["try ", this.stmt(stmt.body)]
+        if (stmt.catchClause) {
+          const { name, body } = stmt.catchClause
+          parts.push(" catch (", name.lexeme, ") ", this.stmt(body))
+        }
+        if (stmt.finallyClause) parts.push(" finally ", this.stmt(stmt.finallyClause.body))
+        return parts
+      }
+      default:
+        return exhaustiveCheck(stmt)
+    }
+  }
+
+  private function(stmt: FunctionStmt): Doc {
+    const params = stmt.params.map((param) => param.lexeme)
+    return [
+      stmt.name.lexeme,
+      stmt.isGetter ? "" : bracketed("(", params, ")"),
+      " ",
+      this.block(stmt.body, stmt.rightBrace),
+    ]
+  }
+
+  private expr(expr: Expr): Doc {
+    switch (expr.type) {
+      case "BinaryExpr":
+      case "LogicalExpr":
+        return this.operatorChain(expr)
+      case "GroupingExpr":
+        return ["(", this.expr(expr.expression), ")"]
+      case "LiteralExpr":
+        return expr.token.lexeme
+      case "UnaryExpr": {
+        // `- -x` can't become `--x`, which is a decrement.
+        const space = expr.operator.type === TokenType.MINUS && startsWithMinus(expr.right)
+        return [expr.operator.lexeme, space ? " " : "", this.expr(expr.right)]
+      }
+      case "UpdateExpr":
+        return expr.prefix
+          ? [expr.operator.lexeme, this.expr(expr.target)]
+          : [this.expr(expr.target), expr.operator.lexeme]
+      case "VariableExpr":
+        return expr.name.lexeme
+      case "AssignExpr":
+        return [expr.name.lexeme, " ", expr.operator.lexeme, " ", this.expr(expr.value)]
+      case "CallExpr": {
+        const args = expr.arguments.map((arg) => this.expr(arg))
+        // A callback ending the arguments keeps its block against the
+        // parentheses rather than indenting it on a line of its own.
+        const last = expr.arguments[expr.arguments.length - 1]
+        if (last && last.type === "FunctionExpr" && !last.arrow) {
+          return [this.expr(expr.callee), "(", join(", ", args), ")"]
+        }
+        return [this.expr(expr.callee), bracketed("(", args, ")")]
+      }
+      case "GetExpr":
+        return [this.expr(expr.object), expr.optional ? "?." : ".", expr.name.lexeme]
+      case "OptionalChainExpr":
+        return this.expr(expr.expression)
+      case "ConditionalExpr":
+        return group([
+          this.expr(expr.condition),
+          indent([line, "? ", this.expr(expr.thenBranch), line, ": ", this.expr(expr.elseBranch)]),
+        ])
+      case "SetExpr":
+        return [
+          this.expr(expr.object),
+          ".",
+          expr.name.lexeme,
+          " ",
+          expr.operator.lexeme,
+          " ",
+          this.expr(expr.value),
+        ]
+      case "ThisExpr":
+        return "this"
+      case "SuperExpr":
+        return ["super.", expr.method.lexeme]
+      case "ListExpr":
+        return bracketed(
+          "[",
+          expr.elements.map((element) => this.expr(element)),
+          "]"
+        )
+      case "MapExpr":
+        return bracketed(
+          "{",
+          expr.entries.map((entry) => [this.expr(entry.key), ": ", this.expr(entry.value)]),
+          "}"
+        )
+      case "IndexGetExpr":
+        return [this.expr(expr.object), "[", this.expr(expr.index), "]"]
+      case "IndexSetExpr":
+        return [this.expr(expr.object), "[", this.expr(expr.index), "] = ", this.expr(expr.value)]
+      case "InterpolationExpr":
+        return expr.strings.map((part, i) => {
+          const embedded = expr.expressions[i]
+          return embedded ? [part.lexeme, this.expr(embedded)] : part.lexeme
+        })
+      case "FunctionExpr": {
+        const params = bracketed(
+          "(",
+          expr.params.map((param) => param.lexeme),
+          ")"
+        )
+        const [body] = expr.body
+        if (expr.arrow && body.type === "ReturnStmt" && body.value) {
+          return ["fun ", params, " => ", this.expr(body.value)]
+        }
+        return ["fun ", params, " ", this.block(expr.body, expr.rightBrace)]
+      }
+      default:
+        return exhaustiveCheck(expr)
+    }
+  }
+}
+
+function sameLevel(a: Token, b: Token): boolean {
+  return operatorLevels.some(
+    (level) => level.indexOf(a.type) !== -1 && level.indexOf(b.type) !== -1
+  )
+}
+
+// Whether `expr` is printed starting with a '-'.
+function startsWithMinus(expr: Expr): boolean {
+  switch (expr.type) {
+    case "UnaryExpr":
+      return expr.operator.type === TokenType.MINUS
+    case "UpdateExpr":
+      return expr.prefix && expr.operator.type === TokenType.MINUS_MINUS
+    case "BinaryExpr":
+      return startsWithMinus(expr.left)
+    default:
+      return false
+  }
+}
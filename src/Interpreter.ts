@@ -5,31 +5,90 @@ import {
   Stmt,
   LogicalExpr,
   CallExpr,
-  FunctionStmt,
+  FunctionDeclaration,
+  functionName,
   GetExpr,
   SetExpr,
+  IndexGetExpr,
+  IndexSetExpr,
+  MapExpr,
+  ImportStmt,
+  TryStmt,
+  UpdateExpr,
+  VariableExpr,
+  AssignExpr,
+  SuperExpr,
+  InterpolationExpr,
+  OptionalChainExpr,
+  ForStmt,
+  ClassStmt,
+  arithmeticOperator,
 } from "./Ast"
 import TokenType from "./TokenType"
 import Token from "./Token"
-import { runtimeError } from "./Error"
+import { ErrorReporter } from "./Error"
 import Environment from "./Enviornment"
 import { exhaustiveCheck } from "./exhaustiveCheck"
+import { NativeArity, NativeError, NativeFunction, NativeImplementation } from "./Native"
+import { defineStdlib } from "./Stdlib"
+import { Module, ModuleLoader, moduleNamespace } from "./Module"
+
+export type InterpreterOptions = {
+  // Receives everything written by `print`, newline included.
+  stdout?: (text: string) => void
+  // Finds the modules `import` statements name. Without one, imports fail.
+  loader?: ModuleLoader
+}
+
+// One active call of a Lox function.
+export type CallFrame = {
+  functionName: string
+  // The class declaring the method, or null for plain functions.
+  className: string | null
+  // The closing paren of the call, or null when the host made the call.
+  callSite: Token | null
+}
+
+// The most calls that can be active at once, on either backend. Every call
+// in the tree-walker recurses through several JS functions, so it usually
+// runs out of Node's stack first, at somewhere over a thousand calls, and
+// reports that as the same "Stack overflow." error.
+export const MAX_CALL_DEPTH = 10000
+
+// Where the script or an active call is, for debuggers.
+export type Activation = {
+  // Null for the script itself.
+  frame: CallFrame | null
+  // The environment it's running in right now.
+  environment: Environment
+  // The environment its body started in. Anything further out is a closure.
+  base: Environment
+}
 
 export class Interpreter {
+  // The globals of the module running now, which start out as the script's.
   private globals = new Environment()
+  // Everything the host defined, which every module's globals start with.
+  private builtins: { [name: string]: any } = {}
+  // The namespace of each module that has run.
+  private modules = new Map<Module, LoxNamespace>()
+  private loader: ModuleLoader | null
+  private callStack: CallFrame[] = []
+  // For each call on `callStack`, the environment its body runs in, the one
+  // its caller was in and the globals its caller had.
+  private callEnvironments: { base: Environment; caller: Environment; globals: Environment }[] = []
+  // Called before every statement runs. A debugger pauses by not returning.
+  private statementHook: ((stmt: Stmt) => void) | null = null
   private locals: Map<Expr, number> = new Map()
   private environment = this.globals
+  private reporter: ErrorReporter
+  private stdout: (text: string) => void
 
-  constructor() {
-    this.globals.define("clock", {
-      arity() {
-        return 0
-      },
-
-      call(args: any[]): number {
-        return Date.now() / 1000
-      },
-    })
+  constructor(reporter: ErrorReporter, options: InterpreterOptions = {}) {
+    this.reporter = reporter
+    this.stdout = options.stdout ?? ((text) => process.stdout.write(text))
+    this.loader = options.loader ?? null
+    defineStdlib(this)
   }
 
   interpret(statements: Stmt[]) {
@@ -39,18 +98,114 @@ export class Interpreter {
       }
     } catch (e) {
       if (e instanceof RuntimeError) {
-        runtimeError(e)
+        this.reporter.runtimeError(e)
       } else {
         throw e
       }
     }
   }
 
+  interpretExpression(expr: Expr): any {
+    try {
+      return this.evaluate(expr)
+    } catch (e) {
+      if (e instanceof RuntimeError) {
+        this.reporter.runtimeError(e)
+        return null
+      } else {
+        throw e
+      }
+    }
+  }
+
+  getGlobal(name: string): any {
+    return this.globals.values.hasOwnProperty(name) ? this.globals.values[name] : undefined
+  }
+
+  defineGlobal(name: string, value: any) {
+    this.defineBuiltin(name, value)
+  }
+
+  defineNative(name: string, arity: NativeArity, implementation: NativeImplementation) {
+    this.defineBuiltin(name, new NativeFunction(name, arity, implementation))
+  }
+
+  // Defines a global namespace whose properties are the given members, so
+  // related natives can be reached as `name.member`.
+  defineModule(name: string, members: { [name: string]: any }) {
+    this.defineBuiltin(name, new LoxNamespace(name, members))
+  }
+
+  private defineBuiltin(name: string, value: any) {
+    this.builtins[name] = value
+    this.globals.define(name, value)
+  }
+
+  // A copy of the active calls, outermost first.
+  getCallStack(): CallFrame[] {
+    return this.callStack.slice()
+  }
+
+  // The script and each active call, outermost first.
+  getActivations(): Activation[] {
+    const globals = this.callEnvironments.length ? this.callEnvironments[0].globals : this.globals
+    const activations: Activation[] = [{ frame: null, environment: globals, base: globals }]
+    this.callStack.forEach((frame, i) => {
+      const { base, caller } = this.callEnvironments[i]
+      activations[i].environment = caller
+      activations.push({ frame, environment: base, base })
+    })
+    activations[activations.length - 1].environment = this.environment
+    return activations
+  }
+
+  // `environment` is the one the call's body will run in. The call sees the
+  // globals of the module it was declared in, at the root of `environment`.
+  pushFrame(frame: CallFrame, environment: Environment) {
+    if (this.callStack.length === MAX_CALL_DEPTH) {
+      const callSite = frame.callSite ?? this.callStack[this.callStack.length - 1].callSite
+      throw new RuntimeError(callSite!, "Stack overflow.")
+    }
+    this.callStack.push(frame)
+    this.callEnvironments.push({
+      base: environment,
+      caller: this.environment,
+      globals: this.globals,
+    })
+    let globals = environment
+    while (globals.enclosing) globals = globals.enclosing
+    this.globals = globals
+  }
+
+  popFrame() {
+    this.callStack.pop()
+    this.globals = this.callEnvironments.pop()!.globals
+  }
+
+  setStatementHook(hook: ((stmt: Stmt) => void) | null) {
+    this.statementHook = hook
+  }
+
+  // Evaluates `expr` as though it appeared where `environment` is current.
+  // The expression must have been resolved against the same scopes, e.g.
+  // with `Resolver.resolveExpressionIn`.
+  evaluateIn(expr: Expr, environment: Environment): any {
+    const previous = this.environment
+    try {
+      this.environment = environment
+      return this.evaluate(expr)
+    } finally {
+      this.environment = previous
+    }
+  }
+
   resolve(expr: Expr, depth: number) {
     this.locals.set(expr, depth)
   }
 
   evaluateStmt(stmt: Stmt): void {
+    if (this.statementHook) this.statementHook(stmt)
+
     switch (stmt.type) {
       case "ExpressionStmt": {
         this.evaluate(stmt.expression)
@@ -58,7 +213,7 @@ export class Interpreter {
       }
       case "PrintStmt": {
         const val = this.evaluate(stmt.expression)
-        console.log(val ?? "nil")
+        this.stdout(stringify(val) + "\n")
         return
       }
       case "VarStmt": {
@@ -81,12 +236,16 @@ export class Interpreter {
       }
       case "WhileStmt": {
         while (isTruthy(this.evaluate(stmt.condition))) {
-          this.evaluateStmt(stmt.body)
+          if (!this.evaluateLoopBody(stmt.body)) break
         }
         return
       }
+      case "ForStmt": {
+        this.evaluateFor(stmt)
+        return
+      }
       case "FunctionStmt": {
-        const fun = new LoxFunction(this, stmt, this.environment, false)
+        const fun = new LoxFunction(this, stmt, this.environment, false, null)
         this.environment.define(stmt.name.lexeme, fun)
         return
       }
@@ -96,48 +255,152 @@ export class Interpreter {
         throw new Return(value)
       }
       case "ClassStmt": {
-        let superclass = null
+        this.evaluateClass(stmt)
+        return
+      }
+      case "ImportStmt": {
+        this.environment.define(stmt.name.lexeme, this.importModule(stmt))
+        return
+      }
+      case "BreakStmt":
+        throw new Break()
+      case "ContinueStmt":
+        throw new Continue()
+      case "ThrowStmt":
+        throw new LoxThrow(stmt.keyword, this.evaluate(stmt.value))
+      case "TryStmt": {
+        this.evaluateTry(stmt)
+        return
+      }
+      default:
+        exhaustiveCheck(stmt)
+    }
+  }
 
-        if (stmt.superclass) {
-          superclass = this.evaluate(stmt.superclass)
-          if (!(superclass instanceof LoxClass)) {
-            throw new RuntimeError(stmt.superclass.name, "Superclass must be a class")
-          }
-        }
+  evaluateFor(stmt: ForStmt) {
+    const previous = this.environment
+    try {
+      this.environment = new Environment(previous)
+      if (stmt.initializer) this.evaluateStmt(stmt.initializer)
+      while (!stmt.condition || isTruthy(this.evaluate(stmt.condition))) {
+        if (!this.evaluateLoopBody(stmt.body)) break
+        if (stmt.increment) this.evaluate(stmt.increment)
+      }
+    } finally {
+      this.environment = previous
+    }
+  }
 
-        this.environment.define(stmt.name.lexeme, null)
+  evaluateClass(stmt: ClassStmt) {
+    let superclass = null
 
-        if (stmt.superclass) {
-          this.environment = new Environment(this.environment)
-          this.environment.define("SuperExpr", superclass)
-        }
+    if (stmt.superclass) {
+      superclass = this.evaluate(stmt.superclass)
+      if (!(superclass instanceof LoxClass)) {
+        throw new RuntimeError(stmt.superclass.name, "Superclass must be a class")
+      }
+    }
 
-        const methods: { [key: string]: LoxFunction } = {}
-        for (const method of stmt.methods) {
-          const fun = new LoxFunction(this, method, this.environment, method.name.lexeme === "init")
-          methods[method.name.lexeme] = fun
-        }
+    this.environment.define(stmt.name.lexeme, null)
 
-        const klass = new LoxClass(stmt.name.lexeme, superclass, methods)
+    if (stmt.superclass) {
+      this.environment = new Environment(this.environment)
+      this.environment.define("super", superclass)
+    }
 
-        if (stmt.superclass) {
-          this.environment = this.environment.enclosing!
-        }
+    const methods: { [key: string]: LoxFunction } = {}
+    for (const method of stmt.methods) {
+      const isInitializer = method.name.lexeme === "init"
+      const fun = new LoxFunction(this, method, this.environment, isInitializer, stmt.name.lexeme)
+      methods[method.name.lexeme] = fun
+    }
 
-        this.environment.assign(stmt.name, klass)
-        break
-      }
-      default:
-        exhaustiveCheck(stmt)
+    const classMethods: { [key: string]: LoxFunction } = {}
+    for (const method of stmt.classMethods) {
+      const fun = new LoxFunction(this, method, this.environment, false, stmt.name.lexeme)
+      classMethods[method.name.lexeme] = fun
+    }
+
+    const klass = new LoxClass(stmt.name.lexeme, superclass, methods, classMethods)
+
+    if (stmt.superclass) {
+      this.environment = this.environment.enclosing!
+    }
+
+    this.environment.assign(stmt.name, klass)
+
+    for (const variable of stmt.variables) {
+      const value = variable.initializer ? this.evaluate(variable.initializer) : null
+      klass.set(variable.name, value)
     }
   }
 
+  // Runs one pass of a loop, returning false when it breaks out. After a
+  // `continue` the loop carries on, running a `for` loop's increment.
+  evaluateLoopBody(body: Stmt): boolean {
+    try {
+      this.evaluateStmt(body)
+    } catch (e) {
+      if (e instanceof Break) return false
+      if (!(e instanceof Continue)) throw e
+    }
+    return true
+  }
+
+  // A `return` or error leaving the try body or catch clause still runs the
+  // finally clause first, and one leaving the finally clause replaces it.
+  evaluateTry(stmt: TryStmt) {
+    try {
+      this.evaluateStmt(stmt.body)
+    } catch (e) {
+      const catchClause = stmt.catchClause
+      if (!catchClause || !(e instanceof RuntimeError)) throw e
+
+      const env = new Environment(this.environment)
+      env.define(catchClause.name.lexeme, caughtValue(e))
+      this.evaluateBlock(catchClause.body.statements, env)
+    } finally {
+      if (stmt.finallyClause) this.evaluateStmt(stmt.finallyClause.body)
+    }
+  }
+
+  // Runs a module the first time it's imported, in globals of its own.
+  importModule(stmt: ImportStmt): LoxNamespace {
+    const module = this.loader?.load(stmt)
+    if (!module) {
+      throw new RuntimeError(stmt.path, `Cannot load module '${stmt.path.literal}'.`)
+    }
+
+    let namespace = this.modules.get(module)
+    if (namespace) return namespace
+
+    const globals = new Environment()
+    for (const name of Object.keys(this.builtins)) {
+      globals.define(name, this.builtins[name])
+    }
+
+    const previous = this.globals
+    try {
+      this.globals = globals
+      this.evaluateBlock(module.statements, globals)
+    } finally {
+      this.globals = previous
+    }
+
+    namespace = moduleNamespace(module, globals.values)
+    this.modules.set(module, namespace)
+    return namespace
+  }
+
   evaluateBlock(statements: Stmt[], env: Environment) {
     const previous = this.environment
     try {
       this.environment = env
-      for (const statement of statements) {
-        this.evaluateStmt(statement)
+      // An index rather than an iterator keeps this frame small, so deep
+      // recursion gets further before running out of stack.
+      // tslint:disable-next-line:prefer-for-of
+      for (let i = 0; i < statements.length; i++) {
+        this.evaluateStmt(statements[i])
       }
     } finally {
       this.environment = previous
@@ -158,62 +421,138 @@ export class Interpreter {
         return this.evaluateBinary(expr)
       case "VariableExpr":
         return this.lookUpVariable(expr.name, expr)
-      case "AssignExpr": {
-        const value = this.evaluate(expr.value)
-        const distance = this.locals.get(expr)
-        if (distance != null) {
-          this.environment.assignAt(distance, expr.name, value)
-        } else {
-          this.globals.assign(expr.name, value)
-        }
-        return value
-      }
+      case "AssignExpr":
+        return this.evaluateAssign(expr)
       case "CallExpr":
         return this.evaluateCall(expr)
       case "GetExpr":
         return this.evaluateGet(expr)
       case "SetExpr":
         return this.evaluateSet(expr)
+      case "ListExpr":
+        return new LoxList(expr.elements.map((element) => this.evaluate(element)))
+      case "MapExpr":
+        return this.evaluateMap(expr)
+      case "IndexGetExpr":
+        return this.evaluateIndexGet(expr)
+      case "IndexSetExpr":
+        return this.evaluateIndexSet(expr)
       case "ThisExpr":
         return this.lookUpVariable(expr.keyword, expr)
       case "SuperExpr":
-        const distance = this.locals.get(expr) ?? 1
-        const superclass: LoxClass = this.environment.getAt(distance, "SuperExpr")
-
-        const object: LoxInstance = this.environment.getAt(distance - 1, "ThisExpr")
-        const method = superclass.findMethod(expr.method.lexeme)
-
-        if (!method) {
-          throw new RuntimeError(expr.method, `Indefined property '${expr.method.lexeme}'.`)
-        }
-
-        return method.bind(object)
+        return this.evaluateSuper(expr)
+      case "FunctionExpr":
+        return new LoxFunction(this, expr, this.environment, false, null)
+      case "InterpolationExpr":
+        return this.evaluateInterpolation(expr)
+      case "UpdateExpr":
+        return this.evaluateUpdate(expr)
+      case "ConditionalExpr":
+        return isTruthy(this.evaluate(expr.condition))
+          ? this.evaluate(expr.thenBranch)
+          : this.evaluate(expr.elseBranch)
+      case "OptionalChainExpr":
+        return this.evaluateOptionalChain(expr)
       default:
         exhaustiveCheck(expr)
     }
   }
 
+  evaluateUpdate(expr: UpdateExpr): any {
+    const arithmetic = arithmeticOperator(expr.operator)!
+    const target = expr.target
+    let previous: any
+    let updated: any
+    if (target.type === "VariableExpr") {
+      previous = this.lookUpVariable(target.name, target)
+      updated = binaryOperation(expr.operator, arithmetic, previous, 1)
+      this.assignVariable(target.name, target, updated)
+    } else {
+      const object = this.evaluate(target.object)
+      if (!(object instanceof LoxInstance || object instanceof LoxClass)) {
+        throw new RuntimeError(target.name, "Only instances have fields.")
+      }
+      previous = object.get(target.name)
+      updated = binaryOperation(expr.operator, arithmetic, previous, 1)
+      object.set(target.name, updated)
+    }
+    return expr.prefix ? updated : previous
+  }
+
   evaluateSet(expr: SetExpr): any {
     const object = this.evaluate(expr.object)
 
-    if (!(object instanceof LoxInstance)) {
+    if (!(object instanceof LoxInstance || object instanceof LoxClass)) {
       throw new RuntimeError(expr.name, "Only instances have fields.")
     }
 
-    const value = this.evaluate(expr.value)
+    const arithmetic = arithmeticOperator(expr.operator)
+    const current = arithmetic === null ? null : object.get(expr.name)
+    let value = this.evaluate(expr.value)
+    if (arithmetic !== null) value = binaryOperation(expr.operator, arithmetic, current, value)
     object.set(expr.name, value)
     return value
   }
 
+  evaluateMap(expr: MapExpr): any {
+    const map = new LoxMap()
+    for (const entry of expr.entries) {
+      const key = this.evaluate(entry.key)
+      map.setIndex(expr.rightBrace, key, this.evaluate(entry.value))
+    }
+    return map
+  }
+
+  evaluateIndexGet(expr: IndexGetExpr): any {
+    const object = this.evaluate(expr.object)
+    const index = this.evaluate(expr.index)
+
+    if (object instanceof LoxList || object instanceof LoxMap) {
+      return object.getIndex(expr.bracket, index)
+    }
+
+    throw new RuntimeError(expr.bracket, "Only lists and maps can be indexed.")
+  }
+
+  evaluateIndexSet(expr: IndexSetExpr): any {
+    const object = this.evaluate(expr.object)
+    const index = this.evaluate(expr.index)
+
+    if (!(object instanceof LoxList || object instanceof LoxMap)) {
+      throw new RuntimeError(expr.bracket, "Only lists and maps can be indexed.")
+    }
+
+    const value = this.evaluate(expr.value)
+    object.setIndex(expr.bracket, index, value)
+    return value
+  }
+
   evaluateGet(expr: GetExpr): any {
     const obj = this.evaluate(expr.object)
-    if (obj instanceof LoxInstance) {
+    if (obj === null && expr.optional) throw new ShortCircuit()
+    if (
+      obj instanceof LoxInstance ||
+      obj instanceof LoxClass ||
+      obj instanceof LoxNamespace ||
+      obj instanceof LoxList ||
+      obj instanceof LoxMap ||
+      obj instanceof LoxError
+    ) {
       return obj.get(expr.name)
     }
 
     throw new RuntimeError(expr.name, "Only instances have properties.")
   }
 
+  assignVariable(name: Token, expr: AssignExpr | VariableExpr, value: any) {
+    const distance = this.locals.get(expr)
+    if (distance != null) {
+      this.environment.assignAt(distance, name, value)
+    } else {
+      this.globals.assign(name, value)
+    }
+  }
+
   lookUpVariable(name: Token, expr: Expr): any {
     const distance = this.locals.get(expr)
     if (distance != null) {
@@ -227,24 +566,66 @@ export class Interpreter {
     const callee = this.evaluate(expr.callee)
     const args = expr.arguments.map((arg) => this.evaluate(arg))
 
-    if (!callee.call || !callee.arity) {
+    if (!isCallable(callee)) {
       throw new RuntimeError(expr.paren, "Can only call functions and classes")
     }
 
-    if (args.length !== callee.arity()) {
-      throw new RuntimeError(
-        expr.paren,
-        `Expected ${callee.arity()} arguments but got ${args.length}.`
-      )
+    const mismatch = checkArity(callee.arity(), args.length)
+    if (mismatch) {
+      throw new RuntimeError(expr.paren, mismatch)
+    }
+
+    return callee.call(args, expr.paren)
+  }
+
+  evaluateAssign(expr: AssignExpr): any {
+    const arithmetic = arithmeticOperator(expr.operator)
+    // A compound assignment reads the variable before evaluating the value.
+    const current = arithmetic === null ? null : this.lookUpVariable(expr.name, expr)
+    let value = this.evaluate(expr.value)
+    if (arithmetic !== null) value = binaryOperation(expr.operator, arithmetic, current, value)
+    this.assignVariable(expr.name, expr, value)
+    return value
+  }
+
+  evaluateSuper(expr: SuperExpr): any {
+    const distance = this.locals.get(expr) ?? 1
+    const superclass: LoxClass = this.environment.getAt(distance, "super")
+
+    const object: LoxInstance = this.environment.getAt(distance - 1, "this")
+    const method = superclass.findMethod(expr.method.lexeme)
+
+    if (!method) {
+      throw new RuntimeError(expr.method, `Undefined property '${expr.method.lexeme}'.`)
     }
 
-    return callee.call(args)
+    return method.isGetter() ? method.bind(object).call([], expr.method) : method.bind(object)
+  }
+
+  evaluateInterpolation(expr: InterpolationExpr): string {
+    return expr.strings
+      .map((part, i) => {
+        const embedded = expr.expressions[i]
+        return embedded ? part.literal + stringify(this.evaluate(embedded)) : part.literal
+      })
+      .join("")
+  }
+
+  evaluateOptionalChain(expr: OptionalChainExpr): any {
+    try {
+      return this.evaluate(expr.expression)
+    } catch (e) {
+      if (e instanceof ShortCircuit) return null
+      throw e
+    }
   }
 
   evaluateLogical(expr: LogicalExpr): any {
     const left = this.evaluate(expr.left)
     if (expr.operator.type == TokenType.OR) {
       if (isTruthy(left)) return left
+    } else if (expr.operator.type === TokenType.QUESTION_QUESTION) {
+      if (left !== null) return left
     } else {
       if (!isTruthy(left)) return left
     }
@@ -267,48 +648,98 @@ export class Interpreter {
   evaluateBinary(expr: BinaryExpr): any {
     const left = this.evaluate(expr.left)
     const right = this.evaluate(expr.right)
+    return binaryOperation(expr.operator, expr.operator.type, left, right)
+  }
+}
 
-    switch (expr.operator.type) {
-      case TokenType.GREATER:
-        checkNumberOperands(expr.operator, left, right)
-        return left > right
-      case TokenType.GREATER_EQUAL:
-        checkNumberOperands(expr.operator, left, right)
-        return left >= right
-      case TokenType.LESS:
-        checkNumberOperands(expr.operator, left, right)
-        return left < right
-      case TokenType.LESS_EQUAL:
-        checkNumberOperands(expr.operator, left, right)
-        return left <= right
-      case TokenType.MINUS:
-        checkNumberOperands(expr.operator, left, right)
-        return left - right
-      case TokenType.PLUS:
-        if (typeof left === "number" && typeof right === "number") return left + right
-        else if (typeof left === "string" && typeof right === "string") return left + right
-        throw new RuntimeError(expr.operator, "Operands must be two numbers or two strings.")
-      case TokenType.SLASH:
-        checkNumberOperands(expr.operator, left, right)
-        return left / right
-      case TokenType.STAR:
-        checkNumberOperands(expr.operator, left, right)
-        return left * right
-      case TokenType.BANG_EQUAL:
-        return !isEqual(left, right)
-      case TokenType.EQUAL_EQUAL:
-        return isEqual(left, right)
-    }
+// Applies the binary operator `type`. Errors are reported at `operator`, which
+// for a compound assignment or `++` is that rather than a `+`.
+function binaryOperation(operator: Token, type: TokenType, left: any, right: any): any {
+  switch (type) {
+    case TokenType.GREATER:
+      checkNumberOperands(operator, left, right)
+      return left > right
+    case TokenType.GREATER_EQUAL:
+      checkNumberOperands(operator, left, right)
+      return left >= right
+    case TokenType.LESS:
+      checkNumberOperands(operator, left, right)
+      return left < right
+    case TokenType.LESS_EQUAL:
+      checkNumberOperands(operator, left, right)
+      return left <= right
+    case TokenType.MINUS:
+      checkNumberOperands(operator, left, right)
+      return left - right
+    case TokenType.PLUS:
+      if (typeof left === "number" && typeof right === "number") return left + right
+      else if (typeof left === "string" && typeof right === "string") return left + right
+      throw new RuntimeError(operator, "Operands must be two numbers or two strings.")
+    case TokenType.SLASH:
+      checkNumberOperands(operator, left, right)
+      return left / right
+    case TokenType.STAR:
+      checkNumberOperands(operator, left, right)
+      return left * right
+    case TokenType.PERCENT:
+      checkNumberOperands(operator, left, right)
+      return left % right
+    case TokenType.STAR_STAR:
+      checkNumberOperands(operator, left, right)
+      return Math.pow(left, right)
+    case TokenType.BANG_EQUAL:
+      return !isEqual(left, right)
+    case TokenType.EQUAL_EQUAL:
+      return isEqual(left, right)
+  }
+}
+
+export function stringify(value: any): string {
+  if (value == null) return "nil"
+  if (Object.is(value, -0)) return "-0"
+  return value.toString()
+}
+
+function isStackExhausted(e: any): boolean {
+  return e instanceof RangeError && e.message === "Maximum call stack size exceeded"
+}
+
+// The lists and maps being printed. One that contains itself prints as
+// `placeholder` where it turns up again, rather than recursing forever.
+const printing = new Set<object>()
+
+function printOnce(value: object, placeholder: string, print: () => string): string {
+  if (printing.has(value)) return placeholder
+  printing.add(value)
+  try {
+    return print()
+  } finally {
+    printing.delete(value)
   }
 }
 
-function isTruthy(object: any): boolean {
+export function isCallable(value: any): value is LoxCallable {
+  return value != null && typeof value.call === "function" && typeof value.arity === "function"
+}
+
+// Returns the error message for calling something of the given arity with
+// `count` arguments, or null when the count is acceptable.
+export function checkArity(arity: Arity, count: number): string | null {
+  if (typeof arity === "number") {
+    return count === arity ? null : `Expected ${arity} arguments but got ${count}.`
+  }
+  if (count >= arity.min && count <= arity.max) return null
+  if (arity.max === Infinity) return `Expected at least ${arity.min} arguments but got ${count}.`
+  return `Expected ${arity.min} to ${arity.max} arguments but got ${count}.`
+}
+
+export function isTruthy(object: any): boolean {
   if (object == null) return false
   if (typeof object == "boolean") return object
   return true
 }
 
-function isEqual(a: any, b: any): boolean {
+export function isEqual(a: any, b: any): boolean {
   return a === b
 }
 
@@ -319,17 +750,43 @@ function checkNumberOperand(token: Token, operand: any) {
 
 function checkNumberOperands(token: Token, left: any, right: any) {
   if (typeof left === "number" && typeof right === "number") return
-  throw new RuntimeError(token, "Operands must be a numbers.")
+  throw new RuntimeError(token, "Operands must be numbers.")
 }
 
 export class RuntimeError extends Error {
   token: Token
+  // The Lox calls active where the error was thrown, outermost first. Filled
+  // in as the error unwinds out of the innermost call.
+  callStack: CallFrame[] | null = null
+
   constructor(token: Token, message: string) {
     super(message)
     this.token = token
   }
 }
 
+// Raised by a `throw` statement. Uncaught, it ends the program like any
+// other runtime error.
+export class LoxThrow extends RuntimeError {
+  readonly value: any
+
+  constructor(keyword: Token, value: any) {
+    // An error object keeps its own message, so rethrowing a caught runtime
+    // error reports it the same way.
+    const message =
+      value instanceof LoxError ? value.message : `Uncaught exception: ${stringify(value)}.`
+    super(keyword, message)
+    this.value = value
+    if (value instanceof LoxError && value.line === null) value.line = keyword.line
+  }
+}
+
+// The value a `catch` clause receives: what was thrown, or for errors the
+// runtime raised, an error object describing them.
+export function caughtValue(e: RuntimeError): any {
+  return e instanceof LoxThrow ? e.value : new LoxError(e.message, e.token.line)
+}
+
 class Return {
   value: any = null
   constructor(value: any) {
@@ -337,20 +794,57 @@ class Return {
   }
 }
 
-interface LoxCallable {
-  call(args: any[]): any
-  arity(): number
+class Break {}
+class Continue {}
+// Thrown by a `?.` that found nil, to skip the rest of its optional chain.
+class ShortCircuit {}
+
+// An exact argument count or an inclusive range. Variadic callables use a
+// `max` of Infinity.
+export type Arity = number | { min: number; max: number }
+
+export interface LoxCallable {
+  // `token` is the call site's closing paren, or null for calls from the host.
+  call(args: any[], token: Token | null): any
+  arity(): Arity
 }
 
-class LoxClass implements LoxCallable {
-  private name: string
+export class LoxClass implements LoxCallable {
+  readonly name: string
+  // Class variables, set on the class itself.
+  readonly fields: { [key: string]: any } = {}
   private superclass: LoxClass | null = null
   private methods: { [key: string]: LoxFunction }
+  private classMethods: { [key: string]: LoxFunction }
 
-  constructor(name: string, superclass: LoxClass | null, methods: { [key: string]: LoxFunction }) {
+  constructor(
+    name: string,
+    superclass: LoxClass | null,
+    methods: { [key: string]: LoxFunction },
+    classMethods: { [key: string]: LoxFunction } = {}
+  ) {
     this.name = name
     this.superclass = superclass
     this.methods = methods
+    this.classMethods = classMethods
+  }
+
+  // Class variables and class methods are looked up through the
+  // superclasses too, so a subclass shares a variable until it sets its own.
+  get(name: Token): any {
+    for (let klass: LoxClass | null = this; klass; klass = klass.superclass) {
+      if (klass.fields.hasOwnProperty(name.lexeme)) return klass.fields[name.lexeme]
+      if (klass.classMethods.hasOwnProperty(name.lexeme)) {
+        const method = klass.classMethods[name.lexeme]
+        return method.isGetter() ? method.call([], name) : method
+      }
+    }
+
+    throw new RuntimeError(name, `Undefined property '${name.lexeme}'.`)
+  }
+
+  set(name: Token, value: any) {
+    this.fields[name.lexeme] = value
   }
 
   findMethod(name: string): LoxFunction | null {
@@ -365,73 +859,111 @@ class LoxClass implements LoxCallable {
     return null
   }
 
-  call(args: any[]) {
+  call(args: any[], token: Token | null) {
     const instance = new LoxInstance(this)
 
     const initializer = this.findMethod("init")
     if (initializer) {
-      initializer.bind(instance).call(args)
+      initializer.bind(instance).call(args, token)
     }
 
     return instance
   }
 
-  arity() {
-    return 0
+  arity(): number {
+    const initializer = this.findMethod("init")
+    return initializer ? initializer.arity() : 0
+  }
+
+  toString() {
+    return this.name
   }
 }
 
-class LoxFunction implements LoxCallable {
+export class LoxFunction implements LoxCallable {
   private interpreter: Interpreter
-  private declaration: FunctionStmt
+  private declaration: FunctionDeclaration
   private closure: Environment
   private isInitializer = false
+  private className: string | null
 
   constructor(
     interpreter: Interpreter,
-    declaration: FunctionStmt,
+    declaration: FunctionDeclaration,
     closure: Environment,
-    isInitializer: boolean
+    isInitializer: boolean,
+    className: string | null
   ) {
     this.interpreter = interpreter
     this.declaration = declaration
     this.closure = closure
     this.isInitializer = isInitializer
+    this.className = className
   }
 
-  call(args: any[]) {
+  call(args: any[], token: Token | null) {
     const env = new Environment(this.closure)
     for (let i = 0; i < this.declaration.params.length; i++) {
       env.define(this.declaration.params[i].lexeme, args[i])
     }
+
+    this.interpreter.pushFrame(
+      {
+        functionName: functionName(this.declaration),
+        className: this.className,
+        callSite: token,
+      },
+      env
+    )
     try {
       this.interpreter.evaluateBlock(this.declaration.body, env)
     } catch (ret) {
       if (ret instanceof Return) {
-        if (this.isInitializer) return this.closure.getAt(0, "ThisExpr")
+        if (this.isInitializer) return this.closure.getAt(0, "this")
         return ret.value
       } else {
+        // A body nested deeply enough can use up Node's stack first.
+        if (token && isStackExhausted(ret)) ret = new RuntimeError(token, "Stack overflow.")
+        if (ret instanceof RuntimeError && !ret.callStack) {
+          ret.callStack = this.interpreter.getCallStack()
+        }
         throw ret
       }
+    } finally {
+      this.interpreter.popFrame()
     }
-    if (this.isInitializer) return this.closure.getAt(0, "ThisExpr")
+    if (this.isInitializer) return this.closure.getAt(0, "this")
     return null
   }
 
-  arity() {
+  arity(): number {
     return this.declaration.params.length
   }
 
+  isGetter(): boolean {
+    return this.declaration.type === "FunctionStmt" && this.declaration.isGetter
+  }
+
   bind(instance: LoxInstance): LoxFunction {
     const env = new Environment(this.closure)
-    env.define("ThisExpr", instance)
-    return new LoxFunction(this.interpreter, this.declaration, env, this.isInitializer)
+    env.define("this", instance)
+    return new LoxFunction(
+      this.interpreter,
+      this.declaration,
+      env,
+      this.isInitializer,
+      this.className
+    )
+  }
+
+  toString() {
+    return `<fn ${functionName(this.declaration)}>`
   }
 }
 
 export class LoxInstance {
-  private klass: LoxClass
-  private fields: { [key: string]: any } = {}
+  readonly klass: LoxClass
+  readonly fields: { [key: string]: any } = {}
 
   constructor(klass: LoxClass) {
     this.klass = klass
@@ -443,7 +975,7 @@ export class LoxInstance {
     }
 
     const method = this.klass.findMethod(name.lexeme)
-    if (method) return method.bind(this)
+    if (method) return method.isGetter() ? method.bind(this).call([], name) : method.bind(this)
 
     throw new RuntimeError(name, `Undefined property '${name.lexeme}'.`)
   }
@@ -451,4 +983,168 @@ export class LoxInstance {
   set(name: Token, value: any) {
     this.fields[name.lexeme] = value
   }
+
+  toString() {
+    return `${this.klass.name} instance`
+  }
+}
+
+// A named bag of read-only properties, used for native modules.
+export class LoxNamespace {
+  readonly name: string
+  readonly members: { [name: string]: any }
+
+  constructor(name: string, members: { [name: string]: any }) {
+    this.name = name
+    this.members = members
+  }
+
+  get(name: Token) {
+    if (this.members.hasOwnProperty(name.lexeme)) {
+      return this.members[name.lexeme]
+    }
+
+    throw new RuntimeError(name, `Undefined property '${name.lexeme}' in '${this.name}'.`)
+  }
+
+  toString() {
+    return `<module ${this.name}>`
+  }
+}
+
+// An error as Lox code sees it, made by the runtime for a `catch` or by
+// calling `Error(message)`. Its `line` is null until it's thrown.
+export class LoxError {
+  readonly message: string
+  line: number | null
+
+  constructor(message: string, line: number | null) {
+    this.message = message
+    this.line = line
+  }
+
+  get(name: Token): any {
+    switch (name.lexeme) {
+      case "message":
+        return this.message
+      case "line":
+        return this.line
+    }
+
+    throw new RuntimeError(name, `Undefined property '${name.lexeme}'.`)
+  }
+
+  toString() {
+    return `Error: ${this.message}`
+  }
+}
+
+export class LoxList {
+  readonly elements: any[]
+
+  constructor(elements: any[]) {
+    this.elements = elements
+  }
+
+  getIndex(bracket: Token, index: any): any {
+    return this.elements[this.checkIndex(bracket, index)]
+  }
+
+  setIndex(bracket: Token, index: any, value: any) {
+    this.elements[this.checkIndex(bracket, index)] = value
+  }
+
+  private checkIndex(bracket: Token, index: any): number {
+    if (typeof index !== "number" || !Number.isInteger(index)) {
+      throw new RuntimeError(bracket, "List index must be a whole number.")
+    }
+    if (index < 0 || index >= this.elements.length) {
+      throw new RuntimeError(bracket, `List index ${index} is out of range.`)
+    }
+    return index
+  }
+
+  get(name: Token): any {
+    switch (name.lexeme) {
+      case "push":
+        return new NativeFunction("push", 1, ([value]) => {
+          this.elements.push(value)
+          return null
+        })
+      case "pop":
+        return new NativeFunction("pop", 0, () => {
+          if (this.elements.length === 0) {
+            throw new NativeError("Cannot pop from an empty list.")
+          }
+          return this.elements.pop()
+        })
+      case "length":
+        return new NativeFunction("length", 0, () => this.elements.length)
+    }
+
+    throw new RuntimeError(name, `Undefined property '${name.lexeme}'.`)
+  }
+
+  toString() {
+    return printOnce(this, "[...]", () => {
+      return `[${this.elements.map((element) => stringify(element)).join(", ")}]`
+    })
+  }
+}
+
+// Maps keys to values. Keys are strings or numbers and compare like `==` in
+// Lox, which for those types is the same equality a JS Map uses.
+export class LoxMap {
+  readonly entries: Map<string | number, any>
+
+  constructor(entries: Map<string | number, any> = new Map()) {
+    this.entries = entries
+  }
+
+  getIndex(bracket: Token, key: any): any {
+    const value = this.entries.get(this.checkKey(bracket, key))
+    return value === undefined ? null : value
+  }
+
+  setIndex(bracket: Token, key: any, value: any) {
+    this.entries.set(this.checkKey(bracket, key), value)
+  }
+
+  private checkKey(bracket: Token, key: any): string | number {
+    // NaN is never equal to itself, so it could never be looked up again.
+    if (typeof key === "string" || (typeof key === "number" && !isNaN(key))) {
+      return key
+    }
+    throw new RuntimeError(bracket, "Map keys must be strings or numbers.")
+  }
+
+  get(name: Token): any {
+    switch (name.lexeme) {
+      case "keys":
+        return new NativeFunction("keys", 0, () => new LoxList(Array.from(this.entries.keys())))
+      case "values":
+        return new NativeFunction("values", 0, () => new LoxList(Array.from(this.entries.values())))
+      case "has":
+        return new NativeFunction("has", 1, ([key]) => this.entries.has(key))
+      case "remove":
+        return new NativeFunction("remove", 1, ([key]) => {
+          const value = this.entries.get(key)
+          this.entries.delete(key)
+          return value === undefined ? null : value
+        })
+      case "length":
+        return new NativeFunction("length", 0, () => this.entries.size)
+    }
+
+    throw new RuntimeError(name, `Undefined property '${name.lexeme}'.`)
+  }
+
+  toString() {
+    return printOnce(this, "{...}", () => {
+      const entries = Array.from(this.entries).map(([key, value]) => {
+        return `${stringify(key)}: ${stringify(value)}`
+      })
+      return `{${entries.join(", ")}}`
+    })
+  }
 }
@@ -0,0 +1,310 @@
+import Token from "./Token"
+import { analyze, Analysis, Definition, describeArity, OutlineSymbol, SymbolKind } from "./Analysis"
+import { Diagnostic, Severity } from "./Diagnostic"
+import { Span, tokenSpan } from "./Span"
+import { MessageReader, writeMessage } from "./Rpc"
+
+// A Language Server Protocol server for Lox, speaking JSON-RPC over stdio.
+// Documents are synced in full on every change and analyzed from scratch,
+// which is plenty fast for files of the size Lox programs are.
+//
+// Only the parts of the protocol used here are typed. See
+// https://microsoft.github.io/language-server-protocol/specification
+
+type Message = {
+  jsonrpc: "2.0"
+  id?: number | string | null
+  method?: string
+  params?: any
+  result?: any
+  error?: { code: number; message: string }
+}
+
+type LspPosition = { line: number; character: number }
+type LspRange = { start: LspPosition; end: LspPosition }
+type LspLocation = { uri: string; range: LspRange }
+
+const errorCodes = {
+  parseError: -32700,
+  methodNotFound: -32601,
+  internalError: -32603,
+}
+
+// The `type` of a window/logMessage.
+const messageTypes = { error: 1 }
+
+const severities: { [severity in Severity]: number } = { error: 1, warning: 2, note: 3 }
+
+const completionKinds: { [kind in SymbolKind]: number } = {
+  method: 2,
+  function: 3,
+  native: 3,
+  variable: 6,
+  parameter: 6,
+  class: 7,
+  module: 9,
+}
+
+const symbolKinds: { [kind in SymbolKind]: number } = {
+  module: 2,
+  class: 5,
+  method: 6,
+  function: 12,
+  native: 12,
+  variable: 13,
+  parameter: 13,
+}
+
+class ResponseError extends Error {
+  readonly code: number
+
+  constructor(code: number, message: string) {
+    super(message)
+    this.code = code
+  }
+}
+
+export class LanguageServer {
+  // Set when the client sends `exit`: 0 if it asked to shut down first, as
+  // the protocol requires, and 1 otherwise.
+  exitCode: number | null = null
+  private documents = new Map<string, Analysis>()
+  private shutdownRequested = false
+  private send: (message: Message) => void
+
+  constructor(send: (message: Message) => void) {
+    this.send = send
+  }
+
+  handle(message: Message) {
+    // Responses to requests the server made. It never makes any.
+    if (message.method === undefined) return
+
+    if (message.id === undefined) {
+      // A notification has no response to carry an error, so it's logged.
+      try {
+        this.notification(message.method, message.params)
+      } catch (e) {
+        this.logError(`${message.method} failed: ${String(e?.message ?? e)}`)
+      }
+      return
+    }
+
+    try {
+      const result = this.request(message.method, message.params)
+      this.send({ jsonrpc: "2.0", id: message.id, result })
+    } catch (e) {
+      const error =
+        e instanceof ResponseError
+          ? { code: e.code, message: e.message }
+          : { code: errorCodes.internalError, message: String(e?.message ?? e) }
+      this.send({ jsonrpc: "2.0", id: message.id, error })
+    }
+  }
+
+  // Answers a message the transport couldn't decode.
+  parseError(message: string) {
+    this.send({ jsonrpc: "2.0", id: null, error: { code: errorCodes.parseError, message } })
+  }
+
+  private request(method: string, params: any): any {
+    switch (method) {
+      case "initialize":
+        return {
+          capabilities: {
+            textDocumentSync: 1,
+            definitionProvider: true,
+            referencesProvider: true,
+            hoverProvider: true,
+            completionProvider: { triggerCharacters: ["."] },
+            documentSymbolProvider: true,
+          },
+          serverInfo: { name: "lox" },
+        }
+      case "shutdown":
+        this.shutdownRequested = true
+        return null
+      case "textDocument/definition":
+        return this.definition(params)
+      case "textDocument/references":
+        return this.references(params)
+      case "textDocument/hover":
+        return this.hover(params)
+      case "textDocument/completion":
+        return this.completion(params)
+      case "textDocument/documentSymbol":
+        return this.documentSymbols(params)
+      default:
+        throw new ResponseError(errorCodes.methodNotFound, `Unhandled method ${method}.`)
+    }
+  }
+
+  private notification(method: string, params: any) {
+    switch (method) {
+      case "textDocument/didOpen":
+        this.update(params.textDocument.uri, params.textDocument.text)
+        break
+      case "textDocument/didChange": {
+        // With full sync the last change holds the whole document.
+        const changes = params.contentChanges
+        if (changes.length === 0) break
+        this.update(params.textDocument.uri, changes[changes.length - 1].text)
+        break
+      }
+      case "textDocument/didClose":
+        this.documents.delete(params.textDocument.uri)
+        this.publishDiagnostics(params.textDocument.uri, [])
+        break
+      case "exit":
+        this.exitCode = this.shutdownRequested ? 0 : 1
+        break
+      default:
+        // Unknown notifications, like `initialized`, are ignored.
+        break
+    }
+  }
+
+  private update(uri: string, text: string) {
+    const analysis = analyze(text)
+    this.documents.set(uri, analysis)
+    this.publishDiagnostics(uri, analysis.diagnostics)
+  }
+
+  private logError(message: string) {
+    this.send({
+      jsonrpc: "2.0",
+      method: "window/logMessage",
+      params: { type: messageTypes.error, message },
+    })
+  }
+
+  private publishDiagnostics(uri: string, diagnostics: Diagnostic[]) {
+    this.send({
+      jsonrpc: "2.0",
+      method: "textDocument/publishDiagnostics",
+      params: {
+        uri,
+        diagnostics: diagnostics.map((diagnostic) => toLspDiagnostic(diagnostic, uri)),
+      },
+    })
+  }
+
+  private definition(params: any): LspLocation | null {
+    const { definition } = this.definitionAt(params)
+    if (!definition?.token) return null
+    return { uri: params.textDocument.uri, range: toRange(tokenSpan(definition.token)) }
+  }
+
+  private references(params: any): LspLocation[] {
+    const { analysis, definition } = this.definitionAt(params)
+    if (!definition) return []
+    const includeDeclaration = params.context?.includeDeclaration ?? true
+    return analysis.referencesTo(definition, includeDeclaration).map((token: Token) => ({
+      uri: params.textDocument.uri,
+      range: toRange(tokenSpan(token)),
+    }))
+  }
+
+  private hover(params: any): any {
+    const { definition } = this.definitionAt(params)
+    if (!definition) return null
+
+    let value = "```lox\n" + definition.signature + "\n```"
+    if (definition.arity !== null) value += "\n\n" + describeArity(definition.arity)
+    return { contents: { kind: "markdown", value } }
+  }
+
+  private completion(params: any): any[] {
+    const analysis = this.document(params)
+    const offset = toOffset(analysis.source, params.position)
+    return analysis.completions(offset).map((definition) => ({
+      label: definition.name,
+      kind: completionKinds[definition.kind],
+      detail: definition.signature,
+    }))
+  }
+
+  private documentSymbols(params: any): any[] {
+    const toDocumentSymbol = (symbol: OutlineSymbol): any => ({
+      name: symbol.name,
+      kind: symbolKinds[symbol.kind],
+      range: toRange(symbol.span),
+      selectionRange: toRange(symbol.selection),
+      children: symbol.children.map(toDocumentSymbol),
+    })
+    return this.document(params).outline().map(toDocumentSymbol)
+  }
+
+  private definitionAt(params: any): { analysis: Analysis; definition: Definition | null } {
+    const analysis = this.document(params)
+    const offset = toOffset(analysis.source, params.position)
+    return { analysis, definition: analysis.definitionAt(offset) }
+  }
+
+  private document(params: any): Analysis {
+    const uri = params.textDocument.uri
+    const analysis = this.documents.get(uri)
+    if (!analysis) {
+      throw new ResponseError(errorCodes.internalError, `Document ${uri} is not open.`)
+    }
+    return analysis
+  }
+}
+
+// Runs a server on the messages from `input`, writing to `output`, until the
+// client sends `exit` or closes the input. Returns the exit code.
+export function serve(input: MessageReader, output: number): number {
+  const server = new LanguageServer((message) => writeMessage(output, message))
+  while (server.exitCode === null) {
+    let message: Message | null
+    try {
+      message = input.read()
+    } catch (e) {
+      server.parseError(e.message)
+      continue
+    }
+    if (message === null) return 1
+    server.handle(message)
+  }
+  return server.exitCode
+}
+
+function toLspDiagnostic(diagnostic: Diagnostic, uri: string): any {
+  const span = diagnostic.span ?? emptySpan
+  return {
+    range: toRange(span),
+    severity: severities[diagnostic.severity],
+    code: diagnostic.code,
+    source: "lox",
+    message: diagnostic.message,
+    relatedInformation: diagnostic.notes
+      .filter((note) => note.span !== null)
+      .map((note) => ({ location: { uri, range: toRange(note.span!) }, message: note.message })),
+  }
+}
+
+const emptySpan: Span = {
+  start: { line: 1, column: 1, offset: 0 },
+  end: { line: 1, column: 1, offset: 0 },
+}
+
+// LSP positions are zero-based and count UTF-16 code units, the same units
+// JavaScript strings index by, so columns carry over directly.
+function toRange(span: Span): LspRange {
+  return {
+    start: { line: span.start.line - 1, character: span.start.column - 1 },
+    end: { line: span.end.line - 1, character: span.end.column - 1 },
+  }
+}
+
+function toOffset(source: string, position: LspPosition): number {
+  let offset = 0
+  for (let line = 0; line < position.line; line++) {
+    const newline = source.indexOf("\n", offset)
+    if (newline === -1) return source.length
+    offset = newline + 1
+  }
+  const lineEnd = source.indexOf("\n", offset)
+  const length = (lineEnd === -1 ? source.length : lineEnd) - offset
+  return offset + Math.min(position.character, length)
+}
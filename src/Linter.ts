@@ -0,0 +1,415 @@
+import Token from "./Token"
+import { Comment } from "./Scanner"
+import { ErrorReporter } from "./Error"
+import { Diagnostic, DiagnosticCode, DiagnosticNote } from "./Diagnostic"
+import { Span, spanBetween, spanOf, tokenSpan } from "./Span"
+import { Expr, Stmt, ClassStmt, FunctionDeclaration } from "./Ast"
+import { exhaustiveCheck } from "./exhaustiveCheck"
+
+export type LintRule =
+  | "unused"
+  | "shadow"
+  | "unreachable"
+  | "constant-condition"
+  | "undefined-method"
+
+const ruleCodes: { [rule in LintRule]: DiagnosticCode } = {
+  unused: DiagnosticCode.UnusedVariable,
+  shadow: DiagnosticCode.ShadowedVariable,
+  unreachable: DiagnosticCode.UnreachableCode,
+  "constant-condition": DiagnosticCode.ConstantCondition,
+  "undefined-method": DiagnosticCode.UndefinedMethod,
+}
+
+export const lintRules = Object.keys(ruleCodes) as LintRule[]
+
+type BindingKind = "variable" | "parameter" | "function" | "class" | "module"
+
+type Binding = { name: Token; kind: BindingKind; used: boolean }
+
+// Matches `// lint-ignore` and `// lint-ignore unused, shadow`.
+const ignorePattern = /^\/\/\s*lint-ignore\b(.*)$/
+
+// Runs the enabled lint rules over a program that resolved cleanly and
+// reports what they find as warnings. A `// lint-ignore` comment silences
+// the listed rules, or all of them, on its own line when it trails code and
+// on the next line otherwise.
+export function lint(
+  statements: Stmt[],
+  comments: Comment[],
+  source: string,
+  reporter: ErrorReporter,
+  rules: LintRule[] = lintRules
+) {
+  const linter = new Linter(rules)
+  linter.lintStatements(statements)
+  linter.checkThisCalls()
+
+  const ignored = ignoredLines(comments, source)
+  const warnings = linter.warnings
+    .filter(({ rule, diagnostic }) => {
+      const ignoredRules = ignored.get(diagnostic.span!.start.line)
+      if (!ignoredRules) return true
+      return ignoredRules.length > 0 && ignoredRules.indexOf(rule) === -1
+    })
+    .map(({ diagnostic }) => diagnostic)
+    .sort((a, b) => a.span!.start.offset - b.span!.start.offset)
+
+  for (const warning of warnings) {
+    reporter.report(warning)
+  }
+}
+
+// The rules each line ignores. An empty list means every rule.
+function ignoredLines(comments: Comment[], source: string): Map<number, string[]> {
+  const ignored = new Map<number, string[]>()
+  for (const comment of comments) {
+    const match = ignorePattern.exec(comment.text.trim())
+    if (!match) continue
+
+    const { line, column, offset } = comment.span.start
+    const before = source.substring(offset - column + 1, offset)
+    const target = before.trim() === "" ? line + 1 : line
+    const rules = match[1].split(/[\s,]+/).filter((rule) => rule !== "")
+    ignored.set(target, rules)
+  }
+  return ignored
+}
+
+class Linter {
+  readonly warnings: { rule: LintRule; diagnostic: Diagnostic }[] = []
+  private rules: LintRule[]
+  private scopes: Map<string, Binding>[] = []
+  // Top-level declarations seen so far, for shadowing warnings.
+  private globals = new Map<string, Token>()
+  // Every class declared anywhere, by name, to look up superclasses.
+  private classes = new Map<string, ClassStmt>()
+  // Property names assigned anywhere. A call to one of these on `this` may be
+  // calling a function stored in a field.
+  private assignedProperties = new Set<string>()
+  // Calls like `this.name()`, checked once the whole program has been seen.
+  private thisCalls: { klass: ClassStmt; name: Token }[] = []
+  private currentClass: ClassStmt | null = null
+
+  constructor(rules: LintRule[]) {
+    this.rules = rules
+  }
+
+  lintStatements(statements: Stmt[]) {
+    const unreachable: Stmt[] = []
+    let terminated = false
+    for (const stmt of statements) {
+      if (terminated) unreachable.push(stmt)
+      this.lintStatement(stmt)
+      if (terminates(stmt)) terminated = true
+    }
+
+    if (unreachable.length) {
+      const span = spanBetween(spanOf(unreachable[0]), spanOf(unreachable[unreachable.length - 1]))
+      this.warn("unreachable", span, "Unreachable code.")
+    }
+  }
+
+  private lintStatement(stmt: Stmt) {
+    switch (stmt.type) {
+      case "ExpressionStmt":
+      case "PrintStmt":
+        this.lintExpr(stmt.expression)
+        break
+      case "VarStmt":
+        if (stmt.initializer) this.lintExpr(stmt.initializer)
+        this.declare(stmt.name, "variable")
+        break
+      case "BlockStmt":
+        this.beginScope()
+        this.lintStatements(stmt.statements)
+        this.endScope()
+        break
+      case "IfStmt":
+        this.checkCondition(stmt.condition, false)
+        this.lintExpr(stmt.condition)
+        this.lintStatement(stmt.thenBranch)
+        if (stmt.elseBranch) this.lintStatement(stmt.elseBranch)
+        break
+      case "WhileStmt":
+        this.checkCondition(stmt.condition, true)
+        this.lintExpr(stmt.condition)
+        this.lintStatement(stmt.body)
+        break
+      case "ForStmt":
+        this.beginScope()
+        if (stmt.initializer) this.lintStatement(stmt.initializer)
+        if (stmt.condition) {
+          this.checkCondition(stmt.condition, true)
+          this.lintExpr(stmt.condition)
+        }
+        if (stmt.increment) this.lintExpr(stmt.increment)
+        this.lintStatement(stmt.body)
+        this.endScope()
+        break
+      case "FunctionStmt":
+        this.declare(stmt.name, "function")
+        this.lintFunction(stmt)
+        break
+      case "ReturnStmt":
+        if (stmt.value) this.lintExpr(stmt.value)
+        break
+      case "BreakStmt":
+      case "ContinueStmt":
+        break
+      case "ClassStmt": {
+        this.classes.set(stmt.name.lexeme, stmt)
+        this.declare(stmt.name, "class")
+        if (stmt.superclass) this.lintExpr(stmt.superclass)
+
+        const enclosingClass = this.currentClass
+        this.currentClass = stmt
+        for (const method of stmt.methods) {
+          this.lintFunction(method)
+        }
+        this.currentClass = enclosingClass
+
+        for (const method of stmt.classMethods) this.lintFunction(method)
+        for (const variable of stmt.variables) {
+          if (variable.initializer) this.lintExpr(variable.initializer)
+        }
+        break
+      }
+      case "ImportStmt":
+        this.declare(stmt.name, "module")
+        break
+      case "ThrowStmt":
+        this.lintExpr(stmt.value)
+        break
+      case "TryStmt":
+        this.lintStatement(stmt.body)
+        if (stmt.catchClause) {
+          this.beginScope()
+          this.declare(stmt.catchClause.name, "variable")
+          this.lintStatements(stmt.catchClause.body.statements)
+          this.endScope()
+        }
+        if (stmt.finallyClause) this.lintStatement(stmt.finallyClause.body)
+        break
+      default:
+        exhaustiveCheck(stmt)
+    }
+  }
+
+  private lintFunction(fn: FunctionDeclaration) {
+    this.beginScope()
+    for (const param of fn.params) {
+      this.declare(param, "parameter")
+    }
+    this.lintStatements(fn.body)
+    this.endScope()
+  }
+
+  private lintExpr(expr: Expr) {
+    switch (expr.type) {
+      case "VariableExpr": {
+        const binding = this.lookUp(expr.name.lexeme)
+        if (binding) binding.used = true
+        break
+      }
+      case "AssignExpr":
+        // Assigning to a variable doesn't count as using it.
+        this.lintExpr(expr.value)
+        break
+      case "BinaryExpr":
+      case "LogicalExpr":
+        this.lintExpr(expr.left)
+        this.lintExpr(expr.right)
+        break
+      case "CallExpr":
+        if (this.currentClass && expr.callee.type === "GetExpr") {
+          if (expr.callee.object.type === "ThisExpr") {
+            this.thisCalls.push({ klass: this.currentClass, name: expr.callee.name })
+          }
+        }
+        this.lintExpr(expr.callee)
+        expr.arguments.forEach((arg) => this.lintExpr(arg))
+        break
+      case "GroupingExpr":
+      case "OptionalChainExpr":
+        this.lintExpr(expr.expression)
+        break
+      case "ConditionalExpr":
+        this.checkCondition(expr.condition, false)
+        this.lintExpr(expr.condition)
+        this.lintExpr(expr.thenBranch)
+        this.lintExpr(expr.elseBranch)
+        break
+      case "UnaryExpr":
+        this.lintExpr(expr.right)
+        break
+      case "GetExpr":
+        this.lintExpr(expr.object)
+        break
+      case "SetExpr":
+        this.assignedProperties.add(expr.name.lexeme)
+        this.lintExpr(expr.object)
+        this.lintExpr(expr.value)
+        break
+      case "ListExpr":
+        expr.elements.forEach((element) => this.lintExpr(element))
+        break
+      case "InterpolationExpr":
+        expr.expressions.forEach((embedded) => this.lintExpr(embedded))
+        break
+      case "UpdateExpr":
+        // Like assigning, updating a variable doesn't count as using it.
+        if (expr.target.type === "GetExpr") {
+          this.assignedProperties.add(expr.target.name.lexeme)
+          this.lintExpr(expr.target.object)
+        }
+        break
+      case "MapExpr":
+        for (const entry of expr.entries) {
+          this.lintExpr(entry.key)
+          this.lintExpr(entry.value)
+        }
+        break
+      case "IndexGetExpr":
+        this.lintExpr(expr.object)
+        this.lintExpr(expr.index)
+        break
+      case "IndexSetExpr":
+        this.lintExpr(expr.object)
+        this.lintExpr(expr.index)
+        this.lintExpr(expr.value)
+        break
+      case "FunctionExpr":
+        this.lintFunction(expr)
+        break
+      case "LiteralExpr":
+      case "ThisExpr":
+      case "SuperExpr":
+        break
+      default:
+        exhaustiveCheck(expr)
+    }
+  }
+
+  // `while (true)` is left alone since it's the usual way to write a loop
+  // that exits with `return`.
+  private checkCondition(condition: Expr, isLoop: boolean) {
+    let expr = condition
+    while (expr.type === "GroupingExpr") expr = expr.expression
+    if (expr.type !== "LiteralExpr") return
+    if (isLoop && expr.value === true) return
+
+    const value = expr.value !== null && expr.value !== false
+    this.warn("constant-condition", spanOf(condition), `Condition is always ${value}.`)
+  }
+
+  checkThisCalls() {
+    for (const { klass, name } of this.thisCalls) {
+      const method = name.lexeme
+      if (this.assignedProperties.has(method) || this.hasMethod(klass, method, [])) continue
+      this.warn(
+        "undefined-method",
+        tokenSpan(name),
+        `Method '${method}' is not defined in class '${klass.name.lexeme}' or its superclasses.`
+      )
+    }
+  }
+
+  // Superclasses that aren't declared in this program could have any
+  // method, so they count as having it.
+  private hasMethod(klass: ClassStmt, name: string, seen: ClassStmt[]): boolean {
+    if (klass.methods.some((method) => method.name.lexeme === name)) return true
+    if (!klass.superclass) return false
+
+    const superclass = this.classes.get(klass.superclass.name.lexeme)
+    if (!superclass || seen.indexOf(superclass) !== -1) return true
+    return this.hasMethod(superclass, name, [...seen, klass])
+  }
+
+  private declare(name: Token, kind: BindingKind) {
+    const outer = this.lookUp(name.lexeme)?.name ?? this.globals.get(name.lexeme)
+    if (outer && this.scopes.length) {
+      this.warn(
+        "shadow",
+        tokenSpan(name),
+        `'${name.lexeme}' shadows a variable from an outer scope.`,
+        [{ message: `'${name.lexeme}' is declared here`, span: tokenSpan(outer) }]
+      )
+    }
+
+    if (this.scopes.length === 0) {
+      this.globals.set(name.lexeme, name)
+    } else {
+      this.scopes[this.scopes.length - 1].set(name.lexeme, { name, kind, used: false })
+    }
+  }
+
+  private lookUp(name: string): Binding | null {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const binding = this.scopes[i].get(name)
+      if (binding) return binding
+    }
+    return null
+  }
+
+  private beginScope() {
+    this.scopes.push(new Map())
+  }
+
+  // Names starting with an underscore are unused on purpose.
+  private endScope() {
+    const scope = this.scopes.pop()!
+    scope.forEach((binding) => {
+      const name = binding.name.lexeme
+      if (binding.used || name.startsWith("_")) return
+      this.warn("unused", tokenSpan(binding.name), `${describeBinding(binding)} is never used.`)
+    })
+  }
+
+  private warn(rule: LintRule, span: Span, message: string, notes: DiagnosticNote[] = []) {
+    if (this.rules.indexOf(rule) === -1) return
+    this.warnings.push({
+      rule,
+      diagnostic: { severity: "warning", code: ruleCodes[rule], message, span, notes },
+    })
+  }
+}
+
+// Whether control never continues past the statement.
+function terminates(stmt: Stmt): boolean {
+  switch (stmt.type) {
+    case "ReturnStmt":
+    case "BreakStmt":
+    case "ContinueStmt":
+    case "ThrowStmt":
+      return true
+    case "BlockStmt":
+      return stmt.statements.some(terminates)
+    case "IfStmt":
+      return !!stmt.elseBranch && terminates(stmt.thenBranch) && terminates(stmt.elseBranch)
+    case "TryStmt":
+      // A catch carries on after anything the try body throws.
+      if (stmt.finallyClause && terminates(stmt.finallyClause.body)) return true
+      return terminates(stmt.body) && (!stmt.catchClause || terminates(stmt.catchClause.body))
+    default:
+      return false
+  }
+}
+
+function describeBinding(binding: Binding): string {
+  const name = binding.name.lexeme
+  switch (binding.kind) {
+    case "variable":
+      return `Local variable '${name}'`
+    case "parameter":
+      return `Parameter '${name}'`
+    case "function":
+      return `Local function '${name}'`
+    case "class":
+      return `Local class '${name}'`
+    case "module":
+      return `Module '${name}'`
+    default:
+      return exhaustiveCheck(binding.kind)
+  }
+}
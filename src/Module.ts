@@ -0,0 +1,128 @@
+import { readFileSync } from "fs"
+import { basename, dirname, extname, join, resolve } from "path"
+import Scanner from "./Scanner"
+import Parser from "./Parser"
+import { ImportStmt, Stmt } from "./Ast"
+import { ErrorReporter } from "./Error"
+import { DiagnosticCode } from "./Diagnostic"
+import { Resolver, ResolutionTarget } from "./Resolver"
+import { LoxNamespace } from "./Interpreter"
+
+// A file of Lox code that another one imports with `import "path" as name;`.
+// Each module runs once, the first time it's imported, with globals of its
+// own, and every import of it shares the namespace it exposes.
+
+export type Module = {
+  // The path it was read from, relative to the working directory.
+  file: string
+  // What its namespace calls itself, from the file name.
+  name: string
+  statements: Stmt[]
+}
+
+// Finds the module an import statement refers to. Backends ask when the
+// import runs.
+export interface ModuleLoader {
+  load(stmt: ImportStmt): Module | null
+}
+
+// Loads modules from the file system, relative to the file importing them.
+// `loadImports` reads, checks and resolves everything a program imports
+// before it runs, reporting problems like any other compile error.
+export class FileLoader implements ModuleLoader {
+  // The text of every module read, by file, for rendering diagnostics.
+  readonly sources: { [file: string]: string } = {}
+  private imports = new Map<ImportStmt, Module>()
+  // Every module read, by absolute path, or null for ones with errors.
+  private modules = new Map<string, Module | null>()
+  private reporter: ErrorReporter
+
+  constructor(reporter: ErrorReporter) {
+    this.reporter = reporter
+  }
+
+  load(stmt: ImportStmt): Module | null {
+    return this.imports.get(stmt) ?? null
+  }
+
+  // Loads the modules imported by `statements`, the code in `file`, and the
+  // ones they import in turn, resolving them for the backend that will run
+  // them with `target`.
+  loadImports(statements: Stmt[], file: string, target: ResolutionTarget) {
+    this.loadAll(statements, [file], target)
+  }
+
+  // `chain` is the files importing each other to get here, starting with
+  // the program and ending with the file `statements` are from.
+  private loadAll(statements: Stmt[], chain: string[], target: ResolutionTarget) {
+    for (const stmt of statements) {
+      if (stmt.type !== "ImportStmt") continue
+      const module = this.loadModule(stmt, chain, target)
+      if (module) this.imports.set(stmt, module)
+    }
+  }
+
+  private loadModule(stmt: ImportStmt, chain: string[], target: ResolutionTarget): Module | null {
+    const file = join(dirname(chain[chain.length - 1]), stmt.path.literal)
+    const path = resolve(file)
+
+    const start = chain.map((importer) => resolve(importer)).indexOf(path)
+    if (start !== -1) {
+      const cycle = [...chain.slice(start), file].join(" -> ")
+      this.reporter.tokenError(stmt.path, DiagnosticCode.ImportCycle, `Import cycle: ${cycle}.`)
+      return null
+    }
+    if (this.modules.has(path)) return this.modules.get(path)!
+
+    let source: string
+    try {
+      source = readFileSync(file, { encoding: "utf-8" })
+    } catch (e) {
+      this.reporter.tokenError(
+        stmt.path,
+        DiagnosticCode.ModuleNotFound,
+        `Cannot find module '${stmt.path.literal}'.`
+      )
+      this.modules.set(path, null)
+      return null
+    }
+    this.sources[file] = source
+
+    const reporter = new ErrorReporter()
+    const statements = new Parser(
+      new Scanner(source, reporter, file).scanTokens(),
+      reporter
+    ).parse()
+    if (!reporter.hadError) {
+      this.loadAll(statements, [...chain, file], target)
+      new Resolver(target, reporter).resolveStatements(statements)
+    }
+    reporter.diagnostics.forEach((diagnostic) => this.reporter.report(diagnostic))
+
+    const module = reporter.hadError
+      ? null
+      : { file, name: basename(file, extname(file)), statements }
+    this.modules.set(path, module)
+    return module
+  }
+}
+
+// The namespace a module is imported as. Its members are the module's
+// top-level declarations, read from `globals` as they are now, so they
+// follow later assignments.
+export function moduleNamespace(module: Module, globals: { [name: string]: any }): LoxNamespace {
+  const members: { [name: string]: any } = {}
+  for (const stmt of module.statements) {
+    if (
+      stmt.type === "VarStmt" ||
+      stmt.type === "FunctionStmt" ||
+      stmt.type === "ClassStmt" ||
+      stmt.type === "ImportStmt"
+    ) {
+      const name = stmt.name.lexeme
+      if (members.hasOwnProperty(name)) continue
+      Object.defineProperty(members, name, { enumerable: true, get: () => globals[name] })
+    }
+  }
+  return new LoxNamespace(module.name, members)
+}
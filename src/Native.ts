@@ -0,0 +1,51 @@
+import Token from "./Token"
+import { Arity, LoxCallable, RuntimeError } from "./Interpreter"
+
+// How many arguments a native accepts: an exact count, or a range. Leaving out
+// `max` makes the native variadic.
+export type NativeArity = number | { min: number; max?: number }
+
+// The body of a native function. `token` is the call site's closing paren, or
+// null when the native is called directly by the host.
+export type NativeImplementation = (args: any[], token: Token | null) => any
+
+// Anything natives can be registered with, i.e. either backend.
+export interface NativeRegistry {
+  defineNative(name: string, arity: NativeArity, implementation: NativeImplementation): void
+}
+
+// Thrown from a native implementation to fail with a Lox runtime error that
+// points at the call site.
+export class NativeError extends Error {}
+
+export class NativeFunction implements LoxCallable {
+  readonly name: string
+  private readonly expected: Arity
+  private readonly implementation: NativeImplementation
+
+  constructor(name: string, arity: NativeArity, implementation: NativeImplementation) {
+    this.name = name
+    this.expected =
+      typeof arity === "number" ? arity : { min: arity.min, max: arity.max ?? Infinity }
+    this.implementation = implementation
+  }
+
+  call(args: any[], token: Token | null) {
+    try {
+      return this.implementation(args, token)
+    } catch (e) {
+      if (e instanceof NativeError && token) {
+        throw new RuntimeError(token, e.message)
+      }
+      throw e
+    }
+  }
+
+  arity() {
+    return this.expected
+  }
+
+  toString() {
+    return "<native fn>"
+  }
+}
@@ -9,15 +9,23 @@ import {
   Stmt,
   FunctionStmt,
   VariableExpr,
+  MapEntry,
+  BlockStmt,
+  CatchClause,
+  FinallyClause,
+  VarStmt,
 } from "./Ast"
-import * as LoxError from "./Error"
+import { ErrorReporter } from "./Error"
+import { DiagnosticCode } from "./Diagnostic"
 
 export default class Parser {
   tokens: Token[] = []
   current = 0
+  private reporter: ErrorReporter
 
-  constructor(tokens: Token[]) {
+  constructor(tokens: Token[], reporter: ErrorReporter) {
     this.tokens = tokens
+    this.reporter = reporter
   }
 
   parse(): Stmt[] {
@@ -31,25 +39,77 @@ export default class Parser {
     return statements
   }
 
+  // Parses source that should hold exactly one expression, as used by
+  // embedders evaluating a snippet. Returns null after reporting a syntax error.
+  parseExpression(): Expr | null {
+    try {
+      const expr = this.expression()
+      if (!this.isAtEnd()) {
+        throw this.error(this.peek(), "Expect end of expression.")
+      }
+      return expr
+    } catch (e) {
+      return null
+    }
+  }
+
   expression(): Expr {
     return this.assignment()
   }
 
   assignment(): Expr {
-    const expr = this.or()
-
-    if (this.match(TokenType.EQUAL)) {
-      const equals = this.previous()
+    const expr = this.conditional()
+
+    if (
+      this.match(
+        TokenType.EQUAL,
+        TokenType.PLUS_EQUAL,
+        TokenType.MINUS_EQUAL,
+        TokenType.STAR_EQUAL,
+        TokenType.SLASH_EQUAL
+      )
+    ) {
+      const operator = this.previous()
       const value = this.assignment()
 
       if (expr.type === "VariableExpr") {
         const name = expr.name
-        return { type: "AssignExpr", name, value }
+        return { type: "AssignExpr", name, operator, value }
       } else if (expr.type === "GetExpr") {
-        return { type: "SetExpr", object: expr.object, name: expr.name, value }
+        return { type: "SetExpr", object: expr.object, name: expr.name, operator, value }
+      } else if (expr.type === "IndexGetExpr" && operator.type === TokenType.EQUAL) {
+        const { object, bracket, index } = expr
+        return { type: "IndexSetExpr", object, bracket, index, value }
       }
 
-      this.error(equals, "Invalid assignment target.")
+      if (operator.type === TokenType.EQUAL) {
+        this.error(operator, "Invalid assignment target.", DiagnosticCode.InvalidAssignmentTarget)
+      } else {
+        this.updateTargetError(operator)
+      }
+    }
+
+    return expr
+  }
+
+  conditional(): Expr {
+    const condition = this.nullish()
+    if (!this.match(TokenType.QUESTION)) return condition
+
+    const question = this.previous()
+    const thenBranch = this.expression()
+    this.consume(TokenType.COLON, "Expect ':' after then branch of conditional expression.")
+    const elseBranch = this.conditional()
+    return { type: "ConditionalExpr", condition, question, thenBranch, elseBranch }
+  }
+
+  nullish(): Expr {
+    let expr = this.or()
+
+    while (this.match(TokenType.QUESTION_QUESTION)) {
+      const operator = this.previous()
+      const right = this.or()
+      expr = { type: "LogicalExpr", left: expr, operator, right }
     }
 
     return expr
@@ -82,8 +142,12 @@ export default class Parser {
   declaration(): Stmt | null {
     try {
       if (this.match(TokenType.CLASS)) return this.classDeclaration()
-      if (this.match(TokenType.FUN)) return this.functionDeclaration("function")
+      // Without a name, `fun` starts an anonymous function in an expression.
+      if (this.check(TokenType.FUN) && this.checkNext(TokenType.IDENTIFIER)) {
+        return this.functionDeclaration("function", this.advance())
+      }
       if (this.match(TokenType.VAR)) return this.varDeclaration()
+      if (this.match(TokenType.IMPORT)) return this.importDeclaration()
       return this.statement()
     } catch (e) {
       this.synchronize()
@@ -92,6 +156,7 @@ export default class Parser {
   }
 
   classDeclaration(): Stmt {
+    const keyword = this.previous()
     const name = this.consume(TokenType.IDENTIFIER, "Expect class name.")
 
     let superclass: VariableExpr | null = null
@@ -103,56 +168,160 @@ export default class Parser {
 
     this.consume(TokenType.LEFT_BRACE, "Expect '{' before class body.")
 
-    const methods = []
+    const methods: FunctionStmt[] = []
+    const classMethods: FunctionStmt[] = []
+    const variables: VarStmt[] = []
     while (!this.check(TokenType.RIGHT_BRACE) && !this.isAtEnd()) {
-      methods.push(this.functionDeclaration("method"))
+      if (this.match(TokenType.VAR)) variables.push(this.varDeclaration())
+      else if (this.match(TokenType.CLASS)) {
+        classMethods.push(this.functionDeclaration("method", this.previous()))
+      } else methods.push(this.functionDeclaration("method", null))
     }
 
-    this.consume(TokenType.RIGHT_BRACE, "Expect '}' after class body.")
-
-    return { type: "ClassStmt", methods, name, superclass }
+    const rightBrace = this.consume(TokenType.RIGHT_BRACE, "Expect '}' after class body.")
+
+    return {
+      type: "ClassStmt",
+      keyword,
+      methods,
+      classMethods,
+      variables,
+      name,
+      superclass,
+      rightBrace,
+    }
   }
 
-  functionDeclaration(kind: string): FunctionStmt {
+  // Methods can leave out the parameter list to declare a getter.
+  functionDeclaration(kind: string, keyword: Token | null): FunctionStmt {
     const name = this.consume(TokenType.IDENTIFIER, `Expect ${kind} name.`)
-    this.consume(TokenType.LEFT_PAREN, `Expect '(' after ${kind} name.`)
+    const isGetter = kind === "method" && this.check(TokenType.LEFT_BRACE)
+    let params: Token[] = []
+    if (!isGetter) {
+      this.consume(TokenType.LEFT_PAREN, `Expect '(' after ${kind} name.`)
+      params = this.parameters()
+    }
+
+    this.consume(TokenType.LEFT_BRACE, "Expect '{' before " + kind + " body.")
+    const body = this.block()
+    const rightBrace = this.previous()
+    return { type: "FunctionStmt", keyword, name, params, isGetter, body, rightBrace }
+  }
+
+  functionExpression(): Expr {
+    const keyword = this.previous()
+    this.consume(TokenType.LEFT_PAREN, "Expect '(' after 'fun'.")
+    const params = this.parameters()
+
+    if (this.match(TokenType.ARROW)) {
+      const arrow = this.previous()
+      const value = this.expression()
+      const end = this.previous()
+      const statements: Stmt[] = [{ type: "ReturnStmt", keyword: arrow, value, semicolon: end }]
+      return { type: "FunctionExpr", keyword, params, arrow, body: statements, rightBrace: end }
+    }
+
+    this.consume(TokenType.LEFT_BRACE, "Expect '{' or '=>' before function body.")
+    const body = this.block()
+    return { type: "FunctionExpr", keyword, params, arrow: null, body, rightBrace: this.previous() }
+  }
+
+  // The parameter list after a function's '(', up to and including the ')'.
+  parameters(): Token[] {
     const parameters: Token[] = []
     if (!this.check(TokenType.RIGHT_PAREN)) {
       do {
         if (parameters.length >= 255) {
-          this.error(this.peek(), "cannot have more than 255 parameters")
+          this.error(
+            this.peek(),
+            "Cannot have more than 255 parameters.",
+            DiagnosticCode.TooManyArguments
+          )
         }
 
         parameters.push(this.consume(TokenType.IDENTIFIER, "Expect parameter name."))
       } while (this.match(TokenType.COMMA))
     }
     this.consume(TokenType.RIGHT_PAREN, "Expect ')' after parameters.")
-
-    this.consume(TokenType.LEFT_BRACE, "Expect '{' before " + kind + " body.")
-    const body = this.block()
-    return { type: "FunctionStmt", name, params: parameters, body }
+    return parameters
   }
 
-  varDeclaration(): Stmt {
+  varDeclaration(): VarStmt {
+    const keyword = this.previous()
     const name = this.consume(TokenType.IDENTIFIER, "Expect variable name.")
     let initializer = this.match(TokenType.EQUAL) ? this.expression() : null
 
-    this.consume(TokenType.SEMICOLON, "Expect ';' after variable declaration.")
+    const semicolon = this.consume(TokenType.SEMICOLON, "Expect ';' after variable declaration.")
 
-    return { type: "VarStmt", name, initializer }
+    return { type: "VarStmt", keyword, name, initializer, semicolon }
+  }
+
+  importDeclaration(): Stmt {
+    const keyword = this.previous()
+    const path = this.consume(TokenType.STRING, "Expect module path after 'import'.")
+    this.consume(TokenType.AS, "Expect 'as' after module path.")
+    const name = this.consume(TokenType.IDENTIFIER, "Expect module name after 'as'.")
+    const semicolon = this.consume(TokenType.SEMICOLON, "Expect ';' after import.")
+
+    return { type: "ImportStmt", keyword, path, name, semicolon }
   }
 
   statement(): Stmt {
+    if (this.match(TokenType.BREAK)) return this.breakStatement()
+    if (this.match(TokenType.CONTINUE)) return this.continueStatement()
     if (this.match(TokenType.FOR)) return this.forStatement()
     if (this.match(TokenType.IF)) return this.ifStatement()
     if (this.match(TokenType.PRINT)) return this.printStatement()
     if (this.match(TokenType.RETURN)) return this.returnStatement()
+    if (this.match(TokenType.THROW)) return this.throwStatement()
+    if (this.match(TokenType.TRY)) return this.tryStatement()
     if (this.match(TokenType.WHILE)) return this.whileStatement()
-    if (this.match(TokenType.LEFT_BRACE)) return { type: "BlockStmt", statements: this.block() }
+    if (this.match(TokenType.LEFT_BRACE)) return this.blockStatement()
 
     return this.expressionStatement()
   }
 
+  blockStatement(): BlockStmt {
+    const leftBrace = this.previous()
+    const statements = this.block()
+    return { type: "BlockStmt", leftBrace, statements, rightBrace: this.previous() }
+  }
+
+  throwStatement(): Stmt {
+    const keyword = this.previous()
+    const value = this.expression()
+    const semicolon = this.consume(TokenType.SEMICOLON, "Expect ';' after thrown value.")
+    return { type: "ThrowStmt", keyword, value, semicolon }
+  }
+
+  tryStatement(): Stmt {
+    const keyword = this.previous()
+    this.consume(TokenType.LEFT_BRACE, "Expect '{' after 'try'.")
+    const body = this.blockStatement()
+
+    let catchClause: CatchClause | null = null
+    if (this.match(TokenType.CATCH)) {
+      const catchKeyword = this.previous()
+      this.consume(TokenType.LEFT_PAREN, "Expect '(' after 'catch'.")
+      const name = this.consume(TokenType.IDENTIFIER, "Expect error variable name.")
+      this.consume(TokenType.RIGHT_PAREN, "Expect ')' after error variable.")
+      this.consume(TokenType.LEFT_BRACE, "Expect '{' before catch body.")
+      catchClause = { keyword: catchKeyword, name, body: this.blockStatement() }
+    }
+
+    let finallyClause: FinallyClause | null = null
+    if (this.match(TokenType.FINALLY)) {
+      const finallyKeyword = this.previous()
+      this.consume(TokenType.LEFT_BRACE, "Expect '{' after 'finally'.")
+      finallyClause = { keyword: finallyKeyword, body: this.blockStatement() }
+    }
+
+    if (!catchClause && !finallyClause) {
+      throw this.error(this.peek(), "Expect 'catch' or 'finally' after try block.")
+    }
+    return { type: "TryStmt", keyword, body, catchClause, finallyClause }
+  }
+
   returnStatement(): Stmt {
     const keyword = this.previous()
     let value = null
@@ -160,12 +329,25 @@ export default class Parser {
       value = this.expression()
     }
 
-    this.consume(TokenType.SEMICOLON, "Expect ';' after return value")
+    const semicolon = this.consume(TokenType.SEMICOLON, "Expect ';' after return value")
 
-    return { type: "ReturnStmt", keyword, value }
+    return { type: "ReturnStmt", keyword, value, semicolon }
+  }
+
+  breakStatement(): Stmt {
+    const keyword = this.previous()
+    const semicolon = this.consume(TokenType.SEMICOLON, "Expect ';' after 'break'.")
+    return { type: "BreakStmt", keyword, semicolon }
+  }
+
+  continueStatement(): Stmt {
+    const keyword = this.previous()
+    const semicolon = this.consume(TokenType.SEMICOLON, "Expect ';' after 'continue'.")
+    return { type: "ContinueStmt", keyword, semicolon }
   }
 
   forStatement(): Stmt {
+    const keyword = this.previous()
     this.consume(TokenType.LEFT_PAREN, "Expect '(' after 'for'.")
 
     let initializer = null
@@ -182,44 +364,30 @@ export default class Parser {
       condition = this.expression()
     }
 
-    this.consume(TokenType.SEMICOLON, "Exprect ';' after loop condition.")
-
-    let increment
+    this.consume(TokenType.SEMICOLON, "Expect ';' after loop condition.")
 
+    let increment: Expr | null = null
     if (!this.check(TokenType.RIGHT_PAREN)) {
       increment = this.expression()
     }
     this.consume(TokenType.RIGHT_PAREN, "Expect ')' after for clauses.")
 
-    let body = this.statement()
-
-    if (increment) {
-      body = {
-        type: "BlockStmt",
-        statements: [body, { type: "ExpressionStmt", expression: increment }],
-      }
-    }
-
-    if (!condition) condition = { type: "LiteralExpr", value: true }
-    body = { type: "WhileStmt", condition, body }
-
-    if (initializer) {
-      body = { type: "BlockStmt", statements: [initializer, body] }
-    }
-
-    return body
+    const body = this.statement()
+    return { type: "ForStmt", keyword, initializer, condition, increment, body }
   }
 
   whileStatement(): Stmt {
+    const keyword = this.previous()
     this.consume(TokenType.LEFT_PAREN, "Expect '(' after 'while'.")
     const condition = this.expression()
-    this.consume(TokenType.RIGHT_PAREN, "Exprect ')' after condition.")
+    this.consume(TokenType.RIGHT_PAREN, "Expect ')' after condition.")
     const body = this.statement()
 
-    return { type: "WhileStmt", condition, body }
+    return { type: "WhileStmt", keyword, condition, body }
   }
 
   ifStatement(): Stmt {
+    const keyword = this.previous()
     this.consume(TokenType.LEFT_PAREN, "Expect '(' after if.")
     const condition = this.expression()
     this.consume(TokenType.RIGHT_PAREN, "Expect ')' after condition.")
@@ -230,19 +398,20 @@ export default class Parser {
       elseBranch = this.statement()
     }
 
-    return { type: "IfStmt", condition, thenBranch, elseBranch }
+    return { type: "IfStmt", keyword, condition, thenBranch, elseBranch }
   }
 
   printStatement(): Stmt {
+    const keyword = this.previous()
     const value = this.expression()
-    this.consume(TokenType.SEMICOLON, "Expect ';' after value.")
-    return { type: "PrintStmt", expression: value }
+    const semicolon = this.consume(TokenType.SEMICOLON, "Expect ';' after value.")
+    return { type: "PrintStmt", keyword, expression: value, semicolon }
   }
 
   expressionStatement(): Stmt {
     const expr = this.expression()
-    this.consume(TokenType.SEMICOLON, "Expect ';' after expression.")
-    return { type: "ExpressionStmt", expression: expr }
+    const semicolon = this.consume(TokenType.SEMICOLON, "Expect ';' after expression.")
+    return { type: "ExpressionStmt", expression: expr, semicolon }
   }
 
   block(): Stmt[] {
@@ -298,7 +467,7 @@ export default class Parser {
   multiplication(): Expr {
     let expr = this.unary()
 
-    while (this.match(TokenType.SLASH, TokenType.STAR)) {
+    while (this.match(TokenType.SLASH, TokenType.STAR, TokenType.PERCENT)) {
       const operator = this.previous()
       const right = this.unary()
       expr = { type: "BinaryExpr", left: expr, operator, right }
@@ -314,22 +483,76 @@ export default class Parser {
       return { type: "UnaryExpr", operator, right }
     }
 
-    return this.call()
+    return this.exponent()
+  }
+
+  // `**` binds tighter than a unary minus on its left, so `-2 ** 2` is -4,
+  // and groups to the right.
+  exponent(): Expr {
+    const expr = this.update()
+    if (this.match(TokenType.STAR_STAR)) {
+      const operator = this.previous()
+      const right = this.unary()
+      return { type: "BinaryExpr", left: expr, operator, right }
+    }
+    return expr
+  }
+
+  update(): Expr {
+    if (this.match(TokenType.PLUS_PLUS, TokenType.MINUS_MINUS)) {
+      const operator = this.previous()
+      return this.updateExpr(operator, this.update(), true)
+    }
+
+    const expr = this.call()
+    if (this.match(TokenType.PLUS_PLUS, TokenType.MINUS_MINUS)) {
+      return this.updateExpr(this.previous(), expr, false)
+    }
+    return expr
+  }
+
+  updateExpr(operator: Token, target: Expr, prefix: boolean): Expr {
+    if (target.type === "VariableExpr" || target.type === "GetExpr") {
+      return { type: "UpdateExpr", operator, target, prefix }
+    }
+    this.updateTargetError(operator)
+    return target
+  }
+
+  // Updating in place reads the target first, which only works for variables
+  // and properties.
+  updateTargetError(operator: Token) {
+    this.error(
+      operator,
+      `Can only use '${operator.lexeme}' on variables and properties.`,
+      DiagnosticCode.InvalidAssignmentTarget
+    )
   }
 
   call(): Expr {
     let expr = this.primary()
+    let isOptionalChain = false
     while (true) {
       if (this.match(TokenType.LEFT_PAREN)) {
         expr = this.finishCall(expr)
-      } else if (this.match(TokenType.DOT)) {
-        const name = this.consume(TokenType.IDENTIFIER, "Expect property name after '.'.")
-        expr = { type: "GetExpr", object: expr, name }
+      } else if (this.match(TokenType.DOT, TokenType.QUESTION_DOT)) {
+        const dot = this.previous()
+        const name = this.consume(
+          TokenType.IDENTIFIER,
+          `Expect property name after '${dot.lexeme}'.`
+        )
+        const optional = dot.type === TokenType.QUESTION_DOT
+        expr = { type: "GetExpr", object: expr, name, optional }
+        isOptionalChain = isOptionalChain || optional
+      } else if (this.match(TokenType.LEFT_BRACKET)) {
+        const index = this.expression()
+        const bracket = this.consume(TokenType.RIGHT_BRACKET, "Expect ']' after index.")
+        expr = { type: "IndexGetExpr", object: expr, bracket, index }
       } else {
         break
       }
     }
-    return expr
+    return isOptionalChain ? { type: "OptionalChainExpr", expression: expr } : expr
   }
 
   finishCall(callee: Expr): Expr {
@@ -337,7 +560,11 @@ export default class Parser {
     if (!this.check(TokenType.RIGHT_PAREN)) {
       do {
         if (args.length >= 255) {
-          this.error(this.peek(), "Cannot have more than 255 arguments.")
+          this.error(
+            this.peek(),
+            "Cannot have more than 255 arguments.",
+            DiagnosticCode.TooManyArguments
+          )
         }
         args.push(this.expression())
       } while (this.match(TokenType.COMMA))
@@ -348,15 +575,21 @@ export default class Parser {
   }
 
   primary(): Expr {
-    if (this.match(TokenType.FALSE)) return { type: "LiteralExpr", value: false }
-    if (this.match(TokenType.TRUE)) return { type: "LiteralExpr", value: true }
+    if (this.match(TokenType.FALSE))
+      return { type: "LiteralExpr", token: this.previous(), value: false }
+    if (this.match(TokenType.TRUE))
+      return { type: "LiteralExpr", token: this.previous(), value: true }
 
-    if (this.match(TokenType.NIL)) return { type: "LiteralExpr", value: null }
+    if (this.match(TokenType.NIL))
+      return { type: "LiteralExpr", token: this.previous(), value: null }
 
     if (this.match(TokenType.NUMBER, TokenType.STRING)) {
-      return { type: "LiteralExpr", value: this.previous().literal }
+      const token = this.previous()
+      return { type: "LiteralExpr", token, value: token.literal }
     }
 
+    if (this.match(TokenType.INTERPOLATION)) return this.interpolation()
+
     if (this.match(TokenType.SUPER)) {
       const keyword = this.previous()
       this.consume(TokenType.DOT, "Expect '.' after 'super'.")
@@ -366,17 +599,86 @@ export default class Parser {
 
     if (this.match(TokenType.THIS)) return { type: "ThisExpr", keyword: this.previous() }
 
+    if (this.match(TokenType.FUN)) return this.functionExpression()
+
     if (this.match(TokenType.IDENTIFIER)) {
       return { type: "VariableExpr", name: this.previous() }
     }
 
     if (this.match(TokenType.LEFT_PAREN)) {
+      const leftParen = this.previous()
       const expr = this.expression()
-      this.consume(TokenType.RIGHT_PAREN, "Expect ')' after expression.")
-      return { type: "GroupingExpr", expression: expr }
+      const rightParen = this.consume(TokenType.RIGHT_PAREN, "Expect ')' after expression.")
+      return { type: "GroupingExpr", leftParen, expression: expr, rightParen }
     }
 
-    throw this.error(this.peek(), "Expected expression")
+    if (this.match(TokenType.LEFT_BRACKET)) return this.list()
+
+    // Statements starting with '{' are blocks, so a brace only begins a map
+    // literal where an expression is expected.
+    if (this.match(TokenType.LEFT_BRACE)) return this.map()
+
+    throw this.error(this.peek(), "Expected expression", DiagnosticCode.ExpectedExpression)
+  }
+
+  interpolation(): Expr {
+    const strings = [this.previous()]
+    const expressions: Expr[] = []
+    while (true) {
+      // Otherwise an empty `${}` would parse the rest of the string as the
+      // expression inside it. The error points at just the `}`.
+      const next = this.peek()
+      if (this.closesInterpolation(next)) {
+        const brace = { ...next, lexeme: "}", endLine: next.line, endColumn: next.column + 1 }
+        throw this.error(brace, "Expected expression", DiagnosticCode.ExpectedExpression)
+      }
+      expressions.push(this.expression())
+      if (!this.match(TokenType.INTERPOLATION)) break
+      strings.push(this.previous())
+    }
+
+    // The rest of the string starts with the `}` closing the expression.
+    const end = this.peek()
+    if (end.type !== TokenType.STRING || !this.closesInterpolation(end)) {
+      throw this.error(end, "Expect '}' after expression in string.")
+    }
+    strings.push(this.advance())
+    return { type: "InterpolationExpr", strings, expressions }
+  }
+
+  // Whether `token` is the part of a string after an embedded expression.
+  closesInterpolation(token: Token): boolean {
+    return (
+      (token.type === TokenType.STRING || token.type === TokenType.INTERPOLATION) &&
+      token.lexeme.charAt(0) === "}"
+    )
+  }
+
+  list(): Expr {
+    const leftBracket = this.previous()
+    const elements: Expr[] = []
+    // A trailing comma is allowed so long literals can be one element per line.
+    while (!this.check(TokenType.RIGHT_BRACKET)) {
+      elements.push(this.expression())
+      if (!this.match(TokenType.COMMA)) break
+    }
+
+    const rightBracket = this.consume(TokenType.RIGHT_BRACKET, "Expect ']' after list elements.")
+    return { type: "ListExpr", leftBracket, elements, rightBracket }
+  }
+
+  map(): Expr {
+    const leftBrace = this.previous()
+    const entries: MapEntry[] = []
+    while (!this.check(TokenType.RIGHT_BRACE)) {
+      const key = this.expression()
+      this.consume(TokenType.COLON, "Expect ':' after map key.")
+      entries.push({ key, value: this.expression() })
+      if (!this.match(TokenType.COMMA)) break
+    }
+
+    const rightBrace = this.consume(TokenType.RIGHT_BRACE, "Expect '}' after map entries.")
+    return { type: "MapExpr", leftBrace, entries, rightBrace }
   }
 
   match(...types: TokenType[]): boolean {
@@ -395,8 +697,8 @@ export default class Parser {
     throw this.error(this.peek(), message)
   }
 
-  error(token: Token, message: string): Error {
-    LoxError.tokenError(token, message)
+  error(token: Token, message: string, code = DiagnosticCode.UnexpectedToken): Error {
+    this.reporter.tokenError(token, code, message)
     return new Error()
   }
 
@@ -410,11 +712,16 @@ export default class Parser {
         case TokenType.CLASS:
         case TokenType.FUN:
         case TokenType.VAR:
+        case TokenType.IMPORT:
         case TokenType.FOR:
         case TokenType.IF:
         case TokenType.WHILE:
         case TokenType.PRINT:
         case TokenType.RETURN:
+        case TokenType.BREAK:
+        case TokenType.CONTINUE:
+        case TokenType.THROW:
+        case TokenType.TRY:
           return
       }
 
@@ -427,6 +734,11 @@ export default class Parser {
     return this.peek().type == type
   }
 
+  checkNext(type: TokenType): boolean {
+    const next = this.tokens[this.current + 1]
+    return next !== undefined && next.type === type
+  }
+
   advance(): Token {
     if (!this.isAtEnd()) this.current++
     return this.previous()
@@ -10,29 +10,65 @@ import {
   IfStmt,
   ReturnStmt,
   WhileStmt,
+  ForStmt,
+  BreakStmt,
+  ContinueStmt,
+  ImportStmt,
+  TryStmt,
   SetExpr,
   LogicalExpr,
+  ConditionalExpr,
   BinaryExpr,
   CallExpr,
   ThisExpr,
   SuperExpr,
+  ListExpr,
+  MapExpr,
+  IndexGetExpr,
+  IndexSetExpr,
+  FunctionExpr,
+  FunctionDeclaration,
 } from "./Ast"
 import Token from "./Token"
-import { tokenError } from "./Error"
+import { ErrorReporter } from "./Error"
+import { DiagnosticCode } from "./Diagnostic"
 import { exhaustiveCheck } from "./exhaustiveCheck"
-import { Interpreter } from "./Interpreter"
+
+// Receives the number of scopes between each local variable use and its
+// declaration. Uses that aren't reported refer to globals.
+//
+// Tools that need to know what names refer to, like the language server,
+// can also implement the optional hooks.
+export interface ResolutionTarget {
+  resolve(expr: Expr, depth: number): void
+  // Called for every declared name, global or local. `node` is the VarStmt,
+  // FunctionStmt, ClassStmt or ImportStmt declaring it; parameters get their
+  // function, which may be a FunctionExpr, and error variables their TryStmt.
+  declare?(name: Token, node: Stmt | FunctionExpr, global: boolean): void
+  // Called for every read or assignment of a variable with the name token of
+  // its local declaration, or null when it refers to a global.
+  reference?(name: Token, declaration: Token | null): void
+}
 
 type FunctionType = "none" | "function" | "method" | "initializer"
-type ClassType = "none" | "class" | "subclass"
+// "static" is code in a class that runs without an instance: class methods
+// and the initializers of class variables.
+type ClassType = "none" | "class" | "subclass" | "static"
 
 export class Resolver {
   private scopes: Map<string, boolean>[] = []
+  // The declaring token of each name in `scopes`, for the optional hooks.
+  private declarations: Map<string, Token>[] = []
   private currentFunction: FunctionType = "none"
   private currentClass: ClassType = "none"
-  private interpreter: Interpreter
+  // How many loops the code being resolved is inside, in the current function.
+  private loopDepth = 0
+  private interpreter: ResolutionTarget
+  private reporter: ErrorReporter
 
-  constructor(interpreter: Interpreter) {
+  constructor(interpreter: ResolutionTarget, reporter: ErrorReporter) {
     this.interpreter = interpreter
+    this.reporter = reporter
   }
 
   resolveStatements(statements: Array<Stmt>) {
@@ -41,6 +77,27 @@ export class Resolver {
     }
   }
 
+  resolveExpression(expr: Expr) {
+    this.resolveExpr(expr)
+  }
+
+  // Resolves an expression as though it appeared inside scopes holding the
+  // given names, outermost first. Debuggers use this to evaluate code in a
+  // paused frame, passing the names in each of its environments.
+  resolveExpressionIn(expr: Expr, scopes: string[][]) {
+    for (const names of scopes) {
+      this.beginScope()
+      for (const name of names) {
+        this.peekScopes().set(name, true)
+        if (name === "this" && this.currentClass === "none") this.currentClass = "class"
+        if (name === "super") this.currentClass = "subclass"
+      }
+    }
+    this.resolveExpr(expr)
+    scopes.forEach(() => this.endScope())
+    this.currentClass = "none"
+  }
+
   private resolveStatement(stmt: Stmt) {
     switch (stmt.type) {
       case "BlockStmt": {
@@ -68,17 +125,38 @@ export class Resolver {
         break
       }
       case "ReturnStmt": {
-        this.resolveReturnStmt
+        this.resolveReturnStmt(stmt)
+        break
+      }
+      case "BreakStmt":
+      case "ContinueStmt": {
+        this.resolveJumpStmt(stmt)
         break
       }
       case "WhileStmt": {
         this.resolveWhileStmt(stmt)
         break
       }
+      case "ForStmt": {
+        this.resolveForStmt(stmt)
+        break
+      }
       case "ClassStmt": {
         this.resolveClassStmt(stmt)
         break
       }
+      case "ImportStmt": {
+        this.resolveImportStmt(stmt)
+        break
+      }
+      case "ThrowStmt": {
+        this.resolveExpr(stmt.value)
+        break
+      }
+      case "TryStmt": {
+        this.resolveTryStmt(stmt)
+        break
+      }
       default:
         exhaustiveCheck(stmt)
     }
@@ -120,23 +198,98 @@ export class Resolver {
       case "SuperExpr":
         this.resolveSuperExpr(expr)
         break
+      case "ListExpr":
+        this.resolveListExpr(expr)
+        break
+      case "MapExpr":
+        this.resolveMapExpr(expr)
+        break
+      case "IndexGetExpr":
+        this.resolveIndexGetExpr(expr)
+        break
+      case "IndexSetExpr":
+        this.resolveIndexSetExpr(expr)
+        break
+      case "FunctionExpr":
+        this.resolveFunction(expr, "function")
+        break
+      case "InterpolationExpr":
+        expr.expressions.forEach((embedded) => this.resolveExpr(embedded))
+        break
+      case "UpdateExpr":
+        this.resolveExpr(expr.target)
+        break
+      case "ConditionalExpr":
+        this.resolveConditionalExpr(expr)
+        break
+      case "OptionalChainExpr":
+        this.resolveExpr(expr.expression)
+        break
       default:
         exhaustiveCheck(expr)
     }
   }
 
+  private resolveListExpr(expr: ListExpr) {
+    for (const element of expr.elements) {
+      this.resolveExpr(element)
+    }
+  }
+
+  private resolveMapExpr(expr: MapExpr) {
+    for (const entry of expr.entries) {
+      this.resolveExpr(entry.key)
+      this.resolveExpr(entry.value)
+    }
+  }
+
+  private resolveIndexGetExpr(expr: IndexGetExpr) {
+    this.resolveExpr(expr.object)
+    this.resolveExpr(expr.index)
+  }
+
+  private resolveIndexSetExpr(expr: IndexSetExpr) {
+    this.resolveExpr(expr.value)
+    this.resolveExpr(expr.object)
+    this.resolveExpr(expr.index)
+  }
+
   private resolveSuperExpr(expr: SuperExpr) {
     if (this.currentClass == "none") {
-      tokenError(expr.keyword, "Cannot use 'super' outside of a class.")
+      this.reporter.tokenError(
+        expr.keyword,
+        DiagnosticCode.SuperOutsideClass,
+        "Cannot use 'super' outside of a class."
+      )
+    } else if (this.currentClass === "static") {
+      this.reporter.tokenError(
+        expr.keyword,
+        DiagnosticCode.SuperInClassMethod,
+        "Cannot use 'super' in class methods or class variables."
+      )
     } else if (this.currentClass !== "subclass") {
-      tokenError(expr.keyword, "Cannot use 'super' in a class with no superclass.")
+      this.reporter.tokenError(
+        expr.keyword,
+        DiagnosticCode.SuperWithoutSuperclass,
+        "Cannot use 'super' in a class with no superclass."
+      )
     }
     this.resolveLocal(expr, expr.keyword)
   }
 
   private resolveThisExpr(expr: ThisExpr) {
     if (this.currentClass === "none") {
-      tokenError(expr.keyword, "Cannot use 'this' outside of a class.")
+      this.reporter.tokenError(
+        expr.keyword,
+        DiagnosticCode.ThisOutsideClass,
+        "Cannot use 'this' outside of a class."
+      )
+    } else if (this.currentClass === "static") {
+      this.reporter.tokenError(
+        expr.keyword,
+        DiagnosticCode.ThisInClassMethod,
+        "Cannot use 'this' in class methods or class variables."
+      )
     }
 
     this.resolveLocal(expr, expr.keyword)
@@ -152,6 +305,12 @@ export class Resolver {
     this.resolveExpr(expr.right)
   }
 
+  private resolveConditionalExpr(expr: ConditionalExpr) {
+    this.resolveExpr(expr.condition)
+    this.resolveExpr(expr.thenBranch)
+    this.resolveExpr(expr.elseBranch)
+  }
+
   private resolveCallExpr(expr: CallExpr) {
     this.resolveExpr(expr.callee)
     for (const arg of expr.arguments) {
@@ -166,17 +325,78 @@ export class Resolver {
 
   private resolveWhileStmt(stmt: WhileStmt) {
     this.resolveExpr(stmt.condition)
+    this.resolveLoopBody(stmt.body)
+  }
+
+  private resolveForStmt(stmt: ForStmt) {
+    // The initializer's variable lives in a scope wrapping the whole loop.
+    this.beginScope()
+    if (stmt.initializer) this.resolveStatement(stmt.initializer)
+    if (stmt.condition) this.resolveExpr(stmt.condition)
+    if (stmt.increment) this.resolveExpr(stmt.increment)
+    this.resolveLoopBody(stmt.body)
+    this.endScope()
+  }
+
+  private resolveLoopBody(body: Stmt) {
+    this.loopDepth++
+    this.resolveStatement(body)
+    this.loopDepth--
+  }
+
+  private resolveJumpStmt(stmt: BreakStmt | ContinueStmt) {
+    if (this.loopDepth === 0) {
+      this.reporter.tokenError(
+        stmt.keyword,
+        DiagnosticCode.JumpOutsideLoop,
+        `Cannot use '${stmt.keyword.lexeme}' outside of a loop.`
+      )
+    }
+  }
+
+  // Imports are only allowed at the top level, so the modules a file needs
+  // can all be found before it runs.
+  private resolveImportStmt(stmt: ImportStmt) {
+    if (this.scopes.length > 0) {
+      this.reporter.tokenError(
+        stmt.keyword,
+        DiagnosticCode.ImportNotAtTopLevel,
+        "Can only import at the top level of a file."
+      )
+    }
+    this.declare(stmt.name, stmt)
+    this.define(stmt.name)
+  }
+
+  // The error variable shares a scope with the catch body.
+  private resolveTryStmt(stmt: TryStmt) {
     this.resolveStatement(stmt.body)
+    if (stmt.catchClause) {
+      this.beginScope()
+      this.declare(stmt.catchClause.name, stmt)
+      this.define(stmt.catchClause.name)
+      this.resolveStatements(stmt.catchClause.body.statements)
+      this.endScope()
+    }
+    if (stmt.finallyClause) this.resolveStatement(stmt.finallyClause.body)
   }
 
   private resolveReturnStmt(stmt: ReturnStmt) {
     if (this.currentFunction === "none") {
-      tokenError(stmt.keyword, "Cannot return from top-level code.")
+      this.reporter.tokenError(
+        stmt.keyword,
+        DiagnosticCode.TopLevelReturn,
+        "Cannot return from top-level code."
+      )
     }
 
     if (stmt.value) {
       if (this.currentFunction === "initializer") {
-        tokenError(stmt.keyword, "Cannot return a value from an initializer.")
+        this.reporter.tokenError(
+          stmt.keyword,
+          DiagnosticCode.ReturnValueFromInitializer,
+          "Cannot return a value from an initializer."
+        )
       }
       this.resolveExpr(stmt.value)
     }
@@ -192,12 +412,16 @@ export class Resolver {
     const enclosingClass = this.currentClass
     this.currentClass = "class"
 
-    this.declare(stmt.name)
+    this.declare(stmt.name, stmt)
     this.define(stmt.name)
 
     if (stmt.superclass) {
       if (stmt.name.lexeme === stmt.superclass.name.lexeme) {
-        tokenError(stmt.superclass.name, "A class cannot inherit from itself.")
+        this.reporter.tokenError(
+          stmt.superclass.name,
+          DiagnosticCode.SelfInheritance,
+          "A class cannot inherit from itself."
+        )
       }
       this.currentClass = "subclass"
       this.resolveExpr(stmt.superclass)
@@ -205,11 +429,11 @@ export class Resolver {
 
     if (stmt.superclass) {
       this.beginScope()
-      this.peekScopes().set("SuperExpr", true)
+      this.peekScopes().set("super", true)
     }
 
     this.beginScope()
-    this.peekScopes().set("ThisExpr", true)
+    this.peekScopes().set("this", true)
 
     for (const method of stmt.methods) {
       const declaration = method.name.lexeme === "init" ? "initializer" : "method"
@@ -217,13 +441,28 @@ export class Resolver {
     }
 
     this.endScope()
+
+    // Class methods close over the class's scope like the others, but
+    // aren't bound to an instance.
+    const instanceClass = this.currentClass
+    this.currentClass = "static"
+    for (const method of stmt.classMethods) this.resolveFunction(method, "method")
+    this.currentClass = instanceClass
+
     if (stmt.superclass) this.endScope()
 
+    // Class variables are initialized in the scope around the class, after
+    // it has been declared.
+    this.currentClass = "static"
+    for (const variable of stmt.variables) {
+      if (variable.initializer) this.resolveExpr(variable.initializer)
+    }
+
     this.currentClass = enclosingClass
   }
 
   private resolveVarStmt(stmt: VarStmt) {
-    this.declare(stmt.name)
+    this.declare(stmt.name, stmt)
     if (stmt.initializer !== null) {
       this.resolveExpr(stmt.initializer)
     }
@@ -237,29 +476,37 @@ export class Resolver {
   }
 
   private resolveFunctionStmt(stmt: FunctionStmt) {
-    this.declare(stmt.name)
+    this.declare(stmt.name, stmt)
     this.define(stmt.name)
 
     this.resolveFunction(stmt, "function")
   }
 
-  private resolveFunction(fn: FunctionStmt, functionType: FunctionType) {
+  private resolveFunction(fn: FunctionDeclaration, functionType: FunctionType) {
     const enclosingFunction = this.currentFunction
+    const enclosingLoopDepth = this.loopDepth
     this.currentFunction = functionType
+    // A function body can't break out of a loop it's declared in.
+    this.loopDepth = 0
 
     this.beginScope()
     for (const param of fn.params) {
-      this.declare(param)
+      this.declare(param, fn)
       this.define(param)
     }
     this.resolveStatements(fn.body)
     this.endScope()
     this.currentFunction = enclosingFunction
+    this.loopDepth = enclosingLoopDepth
   }
 
   private resolveVariableExpr(expr: VariableExpr) {
     if (this.scopes.length && this.peekScopes().get(expr.name.lexeme) === false) {
-      tokenError(expr.name, "Cannot read local variable in its own initializer.")
+      this.reporter.tokenError(
+        expr.name,
+        DiagnosticCode.SelfReferencingInitializer,
+        "Cannot read local variable in its own initializer."
+      )
     }
 
     this.resolveLocal(expr, expr.name)
@@ -274,19 +521,30 @@ export class Resolver {
     for (let i = this.scopes.length - 1; i >= 0; i--) {
       if (this.scopes[i].has(name.lexeme)) {
         this.interpreter.resolve(expr, this.scopes.length - 1 - i)
+        // `this` and `super` have no declaration to point at.
+        const declaration = this.declarations[i].get(name.lexeme)
+        if (declaration) this.interpreter.reference?.(name, declaration)
+        return
       }
     }
+
+    if (expr.type === "VariableExpr" || expr.type === "AssignExpr") {
+      this.interpreter.reference?.(name, null)
+    }
   }
 
   private beginScope() {
     this.scopes.push(new Map())
+    this.declarations.push(new Map())
   }
 
   private endScope() {
     this.scopes.pop()
+    this.declarations.pop()
   }
 
-  private declare(name: Token) {
+  private declare(name: Token, node: Stmt | FunctionExpr) {
+    this.interpreter.declare?.(name, node, this.scopes.length === 0)
     if (this.scopes.length === 0) {
       return
     }
@@ -294,10 +552,15 @@ export class Resolver {
     const scope = this.peekScopes()
 
     if (scope.has(name.lexeme)) {
-      tokenError(name, "VariableExpr with this name already declared in this scope.")
+      this.reporter.tokenError(
+        name,
+        DiagnosticCode.DuplicateDeclaration,
+        "Variable with this name already declared in this scope."
+      )
     }
 
     scope.set(name.lexeme, false)
+    this.declarations[this.declarations.length - 1].set(name.lexeme, name)
   }
 
   private define(name: Token) {
@@ -0,0 +1,78 @@
+import { readSync, writeSync } from "fs"
+
+// The transport the Language Server and Debug Adapter protocols share: JSON
+// messages, each preceded by a header block giving its length in bytes.
+//
+//   Content-Length: 52\r\n
+//   \r\n
+//   {"jsonrpc":"2.0","id":1,"method":"initialize",...}
+//
+// Reads block, so the debugger can wait for commands in the middle of
+// running a program.
+
+export class MessageReader {
+  private fd: number
+  private buffer = Buffer.alloc(0)
+  private ended = false
+
+  constructor(fd: number) {
+    this.fd = fd
+  }
+
+  // The next message, or null once the input ends. Throws a SyntaxError for
+  // a message that isn't valid JSON; the next call carries on after it.
+  read(): any | null {
+    while (true) {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n")
+      if (headerEnd !== -1) {
+        const header = this.buffer.slice(0, headerEnd).toString("ascii")
+        const length = /Content-Length: *(\d+)/i.exec(header)
+        const start = headerEnd + 4
+        if (!length) {
+          this.buffer = this.buffer.slice(start)
+          throw new SyntaxError("Missing Content-Length header.")
+        }
+
+        const end = start + Number(length[1])
+        if (this.buffer.length >= end) {
+          const body = this.buffer.slice(start, end).toString("utf-8")
+          this.buffer = this.buffer.slice(end)
+          return JSON.parse(body)
+        }
+      }
+
+      if (this.ended || !this.fill()) return null
+    }
+  }
+
+  private fill(): boolean {
+    const chunk = readChunk(this.fd)
+    if (chunk === null) {
+      this.ended = true
+      return false
+    }
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    return true
+  }
+}
+
+// Blocks until some input is available, returning null at the end of it.
+export function readChunk(fd: number): Buffer | null {
+  const chunk = Buffer.alloc(65536)
+  while (true) {
+    try {
+      const count = readSync(fd, chunk, 0, chunk.length, null)
+      return count === 0 ? null : chunk.slice(0, count)
+    } catch (e) {
+      // Non-blocking input with nothing in it yet.
+      if (e.code === "EAGAIN") continue
+      if (e.code === "EOF") return null
+      throw e
+    }
+  }
+}
+
+export function writeMessage(fd: number, message: object) {
+  const body = JSON.stringify(message)
+  writeSync(fd, `Content-Length: ${Buffer.byteLength(body, "utf-8")}\r\n\r\n${body}`)
+}
@@ -0,0 +1,257 @@
+import Scanner from "./Scanner"
+import Token from "./Token"
+import Parser from "./Parser"
+import { Resolver } from "./Resolver"
+import {
+  Interpreter,
+  LoxClass,
+  LoxInstance,
+  LoxList,
+  LoxMap,
+  LoxCallable,
+  LoxNamespace,
+  RuntimeError,
+  checkArity,
+  isCallable,
+} from "./Interpreter"
+import { ErrorReporter } from "./Error"
+import { Diagnostic, DiagnosticCode, renderDiagnostic } from "./Diagnostic"
+import { NativeArity, NativeError, NativeFunction, NativeImplementation } from "./Native"
+
+export type LoxOptions = {
+  // Receives everything written by `print`, newline included.
+  stdout?: (text: string) => void
+  // Receives each diagnostic rendered the way the CLI prints it.
+  stderr?: (text: string) => void
+  // The file name shown in rendered diagnostics. Each run and evaluation is
+  // numbered after it, like "script#2".
+  filename?: string
+  // Host values to define as Lox globals. They are converted with `fromJs`.
+  globals?: { [name: string]: any }
+}
+
+export type LoxResult<T> = { success: true; value: T } | { success: false; errors: Diagnostic[] }
+
+export interface Lox {
+  run(source: string): LoxResult<void>
+  evaluate(source: string): LoxResult<any>
+  callFunction(name: string, args: any[]): LoxResult<any>
+  defineNative(name: string, arity: NativeArity, implementation: NativeImplementation): void
+  defineModule(name: string, members: { [name: string]: any }): void
+}
+
+// Fields of host objects passed into Lox live on instances of this class.
+const objectClass = new LoxClass("Object", null, {})
+
+export function createLox(options: LoxOptions = {}): Lox {
+  const filename = options.filename ?? "script"
+  const reporter = new ErrorReporter()
+  const interpreter = new Interpreter(reporter, { stdout: options.stdout })
+
+  for (const name of Object.keys(options.globals ?? {})) {
+    interpreter.defineGlobal(name, fromJs(options.globals![name]))
+  }
+
+  // Each run and evaluation is a file of its own, named after `filename`, so
+  // errors in code from earlier ones show the text that code came from.
+  const sources: { [file: string]: string } = {}
+  let count = 0
+
+  function scan(source: string): Token[] {
+    const file = `${filename}#${++count}`
+    sources[file] = source
+    return new Scanner(source, reporter, file).scanTokens()
+  }
+
+  function failure<T>(): LoxResult<T> {
+    if (options.stderr) {
+      for (const diagnostic of reporter.diagnostics) {
+        options.stderr(renderDiagnostic(diagnostic, "", filename, sources) + "\n")
+      }
+    }
+    return { success: false, errors: reporter.diagnostics }
+  }
+
+  function hostError<T>(message: string): LoxResult<T> {
+    reporter.error(null, DiagnosticCode.RuntimeError, message)
+    return failure()
+  }
+
+  return {
+    run(source: string): LoxResult<void> {
+      reporter.reset()
+      const tokens = scan(source)
+      const statements = new Parser(tokens, reporter).parse()
+      if (reporter.hadError) return failure()
+
+      new Resolver(interpreter, reporter).resolveStatements(statements)
+      if (reporter.hadError) return failure()
+
+      interpreter.interpret(statements)
+      if (reporter.hadRuntimeError) return failure()
+
+      return { success: true, value: undefined }
+    },
+
+    evaluate(source: string): LoxResult<any> {
+      reporter.reset()
+      const tokens = scan(source)
+      const expr = new Parser(tokens, reporter).parseExpression()
+      if (reporter.hadError || !expr) return failure()
+
+      new Resolver(interpreter, reporter).resolveExpression(expr)
+      if (reporter.hadError) return failure()
+
+      const value = interpreter.interpretExpression(expr)
+      if (reporter.hadRuntimeError) return failure()
+
+      return { success: true, value: toJs(value) }
+    },
+
+    callFunction(name: string, args: any[]): LoxResult<any> {
+      reporter.reset()
+      const callee = interpreter.getGlobal(name)
+      if (!isCallable(callee)) {
+        return hostError(`'${name}' is not a function.`)
+      }
+
+      try {
+        return { success: true, value: callFromHost(callee, args, reporter) }
+      } catch (e) {
+        if (e instanceof LoxCallError) return failure()
+        throw e
+      }
+    },
+
+    defineNative(name: string, arity: NativeArity, implementation: NativeImplementation) {
+      interpreter.defineNative(name, arity, implementation)
+    },
+
+    defineModule(name: string, members: { [name: string]: any }) {
+      const converted: { [name: string]: any } = {}
+      for (const key of Object.keys(members)) {
+        converted[key] = fromJs(members[key])
+      }
+      interpreter.defineModule(name, converted)
+    },
+  }
+}
+
+// Thrown to the host by the JS functions `toJs` makes from Lox callables
+// when a call fails, with the diagnostics explaining why.
+export class LoxCallError extends Error {
+  readonly errors: Diagnostic[]
+
+  constructor(errors: Diagnostic[]) {
+    super(errors[0].message)
+    this.errors = errors
+  }
+}
+
+// Calls `callee` with host values, checking the argument count the way a
+// call in Lox would. A failure is recorded in `reporter` and thrown as a
+// LoxCallError.
+function callFromHost(callee: LoxCallable, args: any[], reporter: ErrorReporter): any {
+  const mismatch = checkArity(callee.arity(), args.length)
+  if (mismatch) {
+    reporter.error(null, DiagnosticCode.RuntimeError, mismatch)
+    throw new LoxCallError(reporter.diagnostics)
+  }
+
+  try {
+    return toJs(callee.call(args.map(fromJs), null))
+  } catch (e) {
+    if (e instanceof RuntimeError) {
+      reporter.runtimeError(e)
+    } else if (e instanceof NativeError) {
+      reporter.error(null, DiagnosticCode.RuntimeError, e.message)
+    } else {
+      throw e
+    }
+    throw new LoxCallError(reporter.diagnostics)
+  }
+}
+
+// Converts a Lox value into the closest plain JS value. Instances become plain
+// objects holding their fields and callables become JS functions.
+export function toJs(value: any): any {
+  return convertToJs(value, new Map())
+}
+
+// `converted` maps each list, map and instance to the JS value built for it,
+// so values that contain themselves become JS values that do too.
+function convertToJs(value: any, converted: Map<any, any>): any {
+  if (converted.has(value)) return converted.get(value)
+
+  if (value instanceof LoxList) {
+    const array: any[] = []
+    converted.set(value, array)
+    for (const element of value.elements) {
+      array.push(convertToJs(element, converted))
+    }
+    return array
+  }
+
+  if (value instanceof LoxMap) {
+    const map = new Map<string | number, any>()
+    converted.set(value, map)
+    value.entries.forEach((entry, key) => map.set(key, convertToJs(entry, converted)))
+    return map
+  }
+
+  if (value instanceof LoxInstance) {
+    const object: { [key: string]: any } = {}
+    converted.set(value, object)
+    for (const key of Object.keys(value.fields)) {
+      object[key] = convertToJs(value.fields[key], converted)
+    }
+    return object
+  }
+
+  if (isCallable(value)) {
+    return (...args: any[]) => callFromHost(value, args, new ErrorReporter())
+  }
+
+  return value
+}
+
+// Converts a host value into a Lox value. The inverse of `toJs`.
+export function fromJs(value: any): any {
+  if (value === undefined || value === null) return null
+
+  if (Array.isArray(value)) {
+    return new LoxList(value.map(fromJs))
+  }
+
+  if (value instanceof Map) {
+    return new LoxMap(new Map(Array.from(value).map(([key, entry]) => [key, fromJs(entry)])))
+  }
+
+  if (typeof value === "function") {
+    const fn: (...args: any[]) => any = value
+    return new NativeFunction(fn.name, fn.length, (args) => {
+      try {
+        return fromJs(fn(...args.map(toJs)))
+      } catch (e) {
+        // Whatever the host throws becomes a runtime error at the call.
+        if (e instanceof NativeError) throw e
+        throw new NativeError(String(e?.message ?? e))
+      }
+    })
+  }
+
+  if (
+    typeof value === "object" &&
+    !(value instanceof LoxInstance) &&
+    !(value instanceof LoxNamespace) &&
+    !isCallable(value)
+  ) {
+    const instance = new LoxInstance(objectClass)
+    for (const key of Object.keys(value)) {
+      instance.fields[key] = fromJs(value[key])
+    }
+    return instance
+  }
+
+  return value
+}
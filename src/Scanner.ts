@@ -1,27 +1,80 @@
 import TokenType from './TokenType'
 import Token from './Token'
-import {error} from './Error'
+import { ErrorReporter } from './Error'
+import { DiagnosticCode } from './Diagnostic'
+import { Span } from './Span'
+
+// A comment in the source. Comments aren't tokens, so the parser never sees
+// them; tools like the formatter read them from `Scanner.comments`.
+export type Comment = {
+  text: string,
+  span: Span
+}
 
 export default class Scanner {
+  readonly comments: Comment[] = []
   private source: string = ''
   private tokens: Token[] = []
   private start: number = 0
   private current: number = 0
   private line: number = 1
+  private lineStart: number = 0
+  private startLine: number = 1
+  private startColumn: number = 1
+  private reporter: ErrorReporter
+  private file: string | undefined
+  // For each `${` still open, how many braces inside it haven't been
+  // closed, so the scanner knows which `}` goes back to the string.
+  private interpolations: number[] = []
 
-  constructor(source: string) {
+  // `file` names the source in tokens and diagnostics. Leave it out for the
+  // file being run, which diagnostics name on their own.
+  constructor(source: string, reporter: ErrorReporter, file?: string) {
     this.source = source
+    this.reporter = reporter
+    this.file = file
   }
 
   scanTokens(): Token[] {
     while (!this.isAtEnd()) {
       this.start = this.current
+      this.startLine = this.line
+      this.startColumn = this.column()
       this.scanToken()
     }
-    this.tokens.push({type: TokenType.EOF, lexeme: '', literal: null, line: this.line})
+    this.tokens.push({
+      type: TokenType.EOF,
+      lexeme: '',
+      literal: null,
+      line: this.line,
+      column: this.column(),
+      endLine: this.line,
+      endColumn: this.column(),
+      offset: this.current,
+      file: this.file,
+    })
     return this.tokens
   }
 
+  // The span of the lexeme scanned so far.
+  private currentSpan(): Span {
+    return {
+      start: {line: this.startLine, column: this.startColumn, offset: this.start},
+      end: {line: this.line, column: this.column(), offset: this.current},
+      file: this.file,
+    }
+  }
+
+  private column(): number {
+    return this.current - this.lineStart + 1
+  }
+
+  // Call after consuming a '\n' so columns restart on the next line.
+  private newline() {
+    this.line++
+    this.lineStart = this.current
+  }
+
   private isAtEnd(): boolean {
     return this.current >= this.source.length
   }
@@ -36,11 +89,27 @@ export default class Scanner {
         this.addToken(TokenType.RIGHT_PAREN)
         break
       case '{':
+        if (this.interpolations.length) this.interpolations[this.interpolations.length - 1]++
         this.addToken(TokenType.LEFT_BRACE)
         break
       case '}':
+        if (this.interpolations[this.interpolations.length - 1] === 0) {
+          this.interpolations.pop()
+          this.string()
+          break
+        }
+        if (this.interpolations.length) this.interpolations[this.interpolations.length - 1]--
         this.addToken(TokenType.RIGHT_BRACE)
         break
+      case '[':
+        this.addToken(TokenType.LEFT_BRACKET)
+        break
+      case ']':
+        this.addToken(TokenType.RIGHT_BRACKET)
+        break
+      case ':':
+        this.addToken(TokenType.COLON)
+        break
       case ',':
         this.addToken(TokenType.COMMA)
         break
@@ -48,22 +117,48 @@ export default class Scanner {
         this.addToken(TokenType.DOT)
         break
       case '-':
-        this.addToken(TokenType.MINUS)
+        if (this.match('-')) {
+          this.addToken(TokenType.MINUS_MINUS)
+        } else {
+          this.addToken(this.match('=') ? TokenType.MINUS_EQUAL : TokenType.MINUS)
+        }
         break
       case '+':
-        this.addToken(TokenType.PLUS)
+        if (this.match('+')) {
+          this.addToken(TokenType.PLUS_PLUS)
+        } else {
+          this.addToken(this.match('=') ? TokenType.PLUS_EQUAL : TokenType.PLUS)
+        }
+        break
+      case '%':
+        this.addToken(TokenType.PERCENT)
+        break
+      case '?':
+        if (this.match('.')) {
+          this.addToken(TokenType.QUESTION_DOT)
+        } else {
+          this.addToken(this.match('?') ? TokenType.QUESTION_QUESTION : TokenType.QUESTION)
+        }
         break
       case ';':
         this.addToken(TokenType.SEMICOLON)
         break
       case '*':
-        this.addToken(TokenType.STAR)
+        if (this.match('*')) {
+          this.addToken(TokenType.STAR_STAR)
+        } else {
+          this.addToken(this.match('=') ? TokenType.STAR_EQUAL : TokenType.STAR)
+        }
         break
       case '!':
         this.addToken(this.match('=') ? TokenType.BANG_EQUAL : TokenType.BANG)
         break
       case '=':
-        this.addToken(this.match('=') ? TokenType.EQUAL_EQUAL : TokenType.EQUAL)
+        if (this.match('=')) {
+          this.addToken(TokenType.EQUAL_EQUAL)
+        } else {
+          this.addToken(this.match('>') ? TokenType.ARROW : TokenType.EQUAL)
+        }
         break
       case '<':
         this.addToken(this.match('=') ? TokenType.LESS_EQUAL : TokenType.LESS)
@@ -75,8 +170,11 @@ export default class Scanner {
         if (this.match('/')) {
           // A comment goes until the end of the line.
           while (this.peek() != '\n' && !this.isAtEnd()) this.advance()
+          this.addComment()
+        } else if (this.match('*')) {
+          this.blockComment()
         } else {
-          this.addToken(TokenType.SLASH)
+          this.addToken(this.match('=') ? TokenType.SLASH_EQUAL : TokenType.SLASH)
         }
         break
       case ' ':
@@ -86,7 +184,7 @@ export default class Scanner {
         break
 
       case '\n':
-        this.line++
+        this.newline()
         break
 
       case '"':
@@ -99,7 +197,11 @@ export default class Scanner {
         } else if (this.isAlpha(c)) {
           this.identifier()
         } else {
-          error(this.line, 'Unexpected character')
+          this.reporter.error(
+            this.currentSpan(),
+            DiagnosticCode.UnexpectedCharacter,
+            'Unexpected character.',
+          )
         }
         break
     }
@@ -116,7 +218,48 @@ export default class Scanner {
 
   private addTokenWithLiteral(type: TokenType, literal: any | null) {
     const text = this.source.substring(this.start, this.current)
-    this.tokens.push({type, lexeme: text, literal, line: this.line})
+    this.tokens.push({
+      type,
+      lexeme: text,
+      literal,
+      line: this.startLine,
+      column: this.startColumn,
+      endLine: this.line,
+      endColumn: this.column(),
+      offset: this.start,
+      file: this.file,
+    })
+  }
+
+  private addComment() {
+    const text = this.source.substring(this.start, this.current)
+    this.comments.push({text, span: this.currentSpan()})
+  }
+
+  // Block comments nest, so code with one in it can still be commented out.
+  private blockComment() {
+    let depth = 1
+    while (depth > 0 && !this.isAtEnd()) {
+      if (this.peek() === '/' && this.peekNext() === '*') {
+        this.current += 2
+        depth++
+      } else if (this.peek() === '*' && this.peekNext() === '/') {
+        this.current += 2
+        depth--
+      } else if (this.advance() === '\n') {
+        this.newline()
+      }
+    }
+
+    if (depth > 0) {
+      this.reporter.error(
+        this.currentSpan(),
+        DiagnosticCode.UnterminatedComment,
+        'Unterminated block comment.',
+      )
+      return
+    }
+    this.addComment()
   }
 
   private match(expected: string): boolean {
@@ -132,27 +275,93 @@ export default class Scanner {
     return this.source.charAt(this.current)
   }
 
+  // Scans from the opening quote, or the `}` ending an embedded expression,
+  // up to the closing quote or the next `${`.
   private string() {
-    while (this.peek() != '"') {
-      if (this.peek() == '\n') this.line++
-      this.advance()
+    let value = ''
+    while (this.peek() != '"' && !this.isAtEnd()) {
+      if (this.peek() === '$' && this.peekNext() === '{') {
+        this.current += 2
+        this.addTokenWithLiteral(TokenType.INTERPOLATION, value)
+        this.interpolations.push(0)
+        return
+      }
+
+      const c = this.advance()
+      if (c === '\\') {
+        value += this.escape()
+      } else {
+        if (c === '\n') this.newline()
+        value += c
+      }
     }
 
     if (this.isAtEnd()) {
-      error(this.line, 'Unterminated string.')
+      this.reporter.error(
+        this.currentSpan(),
+        DiagnosticCode.UnterminatedString,
+        'Unterminated string.',
+      )
       return
     }
 
     this.advance()
-
-    const value = this.source.substring(this.start + 1, this.current - 1)
     this.addTokenWithLiteral(TokenType.STRING, value)
   }
 
+  // What an escape sequence stands for, called after its backslash. Invalid
+  // ones are reported and stand for nothing.
+  private escape(): string {
+    const start = this.current - 1
+    // A backslash can't escape the end of a line, which still needs counting.
+    if (this.peek() === '\n' || this.isAtEnd()) {
+      this.escapeError(start, 'Invalid escape sequence.')
+      return ''
+    }
+
+    const c = this.advance()
+    const escaped = escapes.get(c)
+    if (escaped !== undefined) return escaped
+    if (c !== 'u') {
+      this.escapeError(start, `Invalid escape sequence '\\${c}'.`)
+      return ''
+    }
+
+    // A code point in hex, like \u{1F600}.
+    let digits = ''
+    if (this.match('{')) {
+      while (this.isHexDigit(this.peek())) digits += this.advance()
+    }
+    const code = parseInt(digits, 16)
+    if (!this.match('}') || digits.length === 0 || digits.length > 6 || code > 0x10ffff) {
+      this.escapeError(start, 'Invalid unicode escape sequence.')
+      return ''
+    }
+    return String.fromCodePoint(code)
+  }
+
+  // Reports a problem with the escape sequence from `start` to here, which
+  // is all on the current line.
+  private escapeError(start: number, message: string) {
+    this.reporter.error(
+      {
+        start: {line: this.line, column: start - this.lineStart + 1, offset: start},
+        end: {line: this.line, column: this.column(), offset: this.current},
+        file: this.file,
+      },
+      DiagnosticCode.InvalidEscape,
+      message,
+    )
+  }
+
   private isDigit(c: string) {
     return c >= '0' && c <= '9'
   }
 
+  private isHexDigit(c: string) {
+    return this.isDigit(c) || (c >= 'a' && c <= 'f') || (c >= 'A' && c <= 'F')
+  }
+
   private number() {
     while (this.isDigit(this.peek())) this.advance()
 
@@ -195,21 +404,44 @@ export default class Scanner {
   }
 }
 
+// What each single-character escape sequence stands for. `\$` keeps a `${`
+// from starting an interpolation.
+const escapes = new Map([
+  ['0', '\0'],
+  ['b', '\b'],
+  ['f', '\f'],
+  ['n', '\n'],
+  ['r', '\r'],
+  ['t', '\t'],
+  ['v', '\v'],
+  ['"', '"'],
+  ['\\', '\\'],
+  ['$', '$'],
+])
+
 const keywords = new Map([
   ['and', TokenType.AND],
+  ['as', TokenType.AS],
+  ['break', TokenType.BREAK],
+  ['catch', TokenType.CATCH],
   ['class', TokenType.CLASS],
+  ['continue', TokenType.CONTINUE],
   ['else', TokenType.ELSE],
   ['false', TokenType.FALSE],
+  ['finally', TokenType.FINALLY],
   ['for', TokenType.FOR],
   ['fun', TokenType.FUN],
   ['if', TokenType.IF],
+  ['import', TokenType.IMPORT],
   ['nil', TokenType.NIL],
   ['or', TokenType.OR],
   ['print', TokenType.PRINT],
   ['return', TokenType.RETURN],
   ['super', TokenType.SUPER],
   ['this', TokenType.THIS],
+  ['throw', TokenType.THROW],
   ['true', TokenType.TRUE],
+  ['try', TokenType.TRY],
   ['var', TokenType.VAR],
   ['while', TokenType.WHILE],
 ])
@@ -0,0 +1,105 @@
+import Token from "./Token"
+import { Expr, Stmt } from "./Ast"
+import { exhaustiveCheck } from "./exhaustiveCheck"
+
+export type Position = { line: number; column: number; offset: number }
+
+// A range of source text. `end` points just past the last character. `file`
+// is set for text from another file than the one being run, as on tokens.
+export type Span = { start: Position; end: Position; file?: string }
+
+export function tokenSpan(token: Token): Span {
+  return {
+    start: { line: token.line, column: token.column, offset: token.offset },
+    end: {
+      line: token.endLine,
+      column: token.endColumn,
+      offset: token.offset + token.lexeme.length,
+    },
+    file: token.file,
+  }
+}
+
+export function spanBetween(first: Span, last: Span): Span {
+  return { start: first.start, end: last.end, file: first.file }
+}
+
+function tokensSpan(first: Token, last: Token): Span {
+  return spanBetween(tokenSpan(first), tokenSpan(last))
+}
+
+// Derives the source range a node was parsed from using the tokens it holds.
+export function spanOf(node: Expr | Stmt): Span {
+  switch (node.type) {
+    case "BinaryExpr":
+    case "LogicalExpr":
+      return spanBetween(spanOf(node.left), spanOf(node.right))
+    case "GroupingExpr":
+      return tokensSpan(node.leftParen, node.rightParen)
+    case "LiteralExpr":
+      return tokenSpan(node.token)
+    case "UnaryExpr":
+      return spanBetween(tokenSpan(node.operator), spanOf(node.right))
+    case "VariableExpr":
+      return tokenSpan(node.name)
+    case "AssignExpr":
+      return spanBetween(tokenSpan(node.name), spanOf(node.value))
+    case "CallExpr":
+      return spanBetween(spanOf(node.callee), tokenSpan(node.paren))
+    case "GetExpr":
+      return spanBetween(spanOf(node.object), tokenSpan(node.name))
+    case "SetExpr":
+      return spanBetween(spanOf(node.object), spanOf(node.value))
+    case "ThisExpr":
+      return tokenSpan(node.keyword)
+    case "SuperExpr":
+      return tokensSpan(node.keyword, node.method)
+    case "ListExpr":
+      return tokensSpan(node.leftBracket, node.rightBracket)
+    case "MapExpr":
+      return tokensSpan(node.leftBrace, node.rightBrace)
+    case "IndexGetExpr":
+      return spanBetween(spanOf(node.object), tokenSpan(node.bracket))
+    case "IndexSetExpr":
+      return spanBetween(spanOf(node.object), spanOf(node.value))
+    case "FunctionExpr":
+      return tokensSpan(node.keyword, node.rightBrace)
+    case "UpdateExpr":
+      return node.prefix
+        ? spanBetween(tokenSpan(node.operator), spanOf(node.target))
+        : spanBetween(spanOf(node.target), tokenSpan(node.operator))
+    case "InterpolationExpr":
+      return tokensSpan(node.strings[0], node.strings[node.strings.length - 1])
+    case "ConditionalExpr":
+      return spanBetween(spanOf(node.condition), spanOf(node.elseBranch))
+    case "OptionalChainExpr":
+      return spanOf(node.expression)
+    case "ExpressionStmt":
+      return spanBetween(spanOf(node.expression), tokenSpan(node.semicolon))
+    case "PrintStmt":
+    case "VarStmt":
+    case "ReturnStmt":
+    case "BreakStmt":
+    case "ContinueStmt":
+    case "ImportStmt":
+    case "ThrowStmt":
+      return tokensSpan(node.keyword, node.semicolon)
+    case "BlockStmt":
+      return tokensSpan(node.leftBrace, node.rightBrace)
+    case "ClassStmt":
+      return tokensSpan(node.keyword, node.rightBrace)
+    case "IfStmt":
+      return spanBetween(tokenSpan(node.keyword), spanOf(node.elseBranch ?? node.thenBranch))
+    case "WhileStmt":
+    case "ForStmt":
+      return spanBetween(tokenSpan(node.keyword), spanOf(node.body))
+    case "FunctionStmt":
+      return tokensSpan(node.keyword ?? node.name, node.rightBrace)
+    case "TryStmt": {
+      const last = node.finallyClause ?? node.catchClause ?? node
+      return tokensSpan(node.keyword, last.body.rightBrace)
+    }
+    default:
+      return exhaustiveCheck(node)
+  }
+}
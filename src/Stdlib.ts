@@ -0,0 +1,95 @@
+import { LoxError, LoxList, LoxMap, stringify } from "./Interpreter"
+import { NativeError, NativeRegistry } from "./Native"
+
+// Registers the built-in natives every Lox program can use.
+export function defineStdlib(interpreter: NativeRegistry) {
+  interpreter.defineNative("clock", 0, () => Date.now() / 1000)
+
+  // Strings.
+  interpreter.defineNative("len", 1, ([value]) => {
+    if (typeof value === "string") return value.length
+    if (value instanceof LoxList) return value.elements.length
+    if (value instanceof LoxMap) return value.entries.size
+    throw new NativeError("len() expects a string, a list or a map.")
+  })
+  interpreter.defineNative("substring", { min: 2, max: 3 }, (args) => {
+    const s = expectString("substring", args[0])
+    const start = expectIndex("substring", args[1], s.length)
+    const end = args.length > 2 ? expectIndex("substring", args[2], s.length) : s.length
+    if (end < start) throw new NativeError("substring() end must not be before start.")
+    return s.substring(start, end)
+  })
+  interpreter.defineNative("indexOf", 2, ([s, search]) => {
+    return expectString("indexOf", s).indexOf(expectString("indexOf", search))
+  })
+  interpreter.defineNative("split", 2, ([s, separator]) => {
+    const parts = expectString("split", s).split(expectString("split", separator))
+    return new LoxList(parts)
+  })
+  interpreter.defineNative("upper", 1, ([s]) => expectString("upper", s).toUpperCase())
+  interpreter.defineNative("lower", 1, ([s]) => expectString("lower", s).toLowerCase())
+  interpreter.defineNative("trim", 1, ([s]) => expectString("trim", s).trim())
+
+  // Math.
+  interpreter.defineNative("floor", 1, ([n]) => Math.floor(expectNumber("floor", n)))
+  interpreter.defineNative("ceil", 1, ([n]) => Math.ceil(expectNumber("ceil", n)))
+  interpreter.defineNative("round", 1, ([n]) => Math.round(expectNumber("round", n)))
+  interpreter.defineNative("sqrt", 1, ([n]) => Math.sqrt(expectNumber("sqrt", n)))
+  interpreter.defineNative("pow", 2, ([base, exponent]) => {
+    return Math.pow(expectNumber("pow", base), expectNumber("pow", exponent))
+  })
+  interpreter.defineNative("min", { min: 1 }, (args) => {
+    return Math.min(...args.map((n) => expectNumber("min", n)))
+  })
+  interpreter.defineNative("max", { min: 1 }, (args) => {
+    return Math.max(...args.map((n) => expectNumber("max", n)))
+  })
+  interpreter.defineNative("random", 0, () => Math.random())
+
+  // Conversion.
+  interpreter.defineNative("str", 1, ([value]) => stringify(value))
+  interpreter.defineNative("num", 1, ([value]) => {
+    if (typeof value === "number") return value
+    const text = expectString("num", value).trim()
+    // An unparseable string gives nil so scripts can test for it.
+    if (!/^-?\d+(\.\d+)?$/.test(text)) return null
+    return parseFloat(text)
+  })
+
+  // Errors.
+  interpreter.defineNative("Error", 1, ([message]) => {
+    return new LoxError(expectString("Error", message), null)
+  })
+}
+
+function expectString(name: string, value: any): string {
+  if (typeof value === "string") return value
+  throw new NativeError(`${name}() expects a string but got ${typeName(value)}.`)
+}
+
+function expectNumber(name: string, value: any): number {
+  if (typeof value === "number") return value
+  throw new NativeError(`${name}() expects a number but got ${typeName(value)}.`)
+}
+
+// Checks that `value` is a whole number between 0 and `length`, inclusive.
+function expectIndex(name: string, value: any, length: number): number {
+  const index = expectNumber(name, value)
+  if (!Number.isInteger(index)) {
+    throw new NativeError(`${name}() expects a whole number index but got ${index}.`)
+  }
+  if (index < 0 || index > length) {
+    throw new NativeError(`${name}() index ${index} is out of range.`)
+  }
+  return index
+}
+
+export function typeName(value: any): string {
+  if (value == null) return "nil"
+  if (typeof value === "boolean") return "a boolean"
+  if (typeof value === "number") return "a number"
+  if (typeof value === "string") return "a string"
+  if (value instanceof LoxList) return "a list"
+  if (value instanceof LoxMap) return "a map"
+  return stringify(value)
+}
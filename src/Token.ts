@@ -4,7 +4,18 @@ type Token = {
   type: TokenType,
   lexeme: string,
   literal: any | null,
-  line: number
+  // 1-based line and column of the first character.
+  line: number,
+  column: number,
+  // 1-based line and column just past the last character. They differ from
+  // `line` only for strings spanning several lines.
+  endLine: number,
+  endColumn: number,
+  // 0-based index of the first character in the source.
+  offset: number,
+  // The file the token was scanned from, when it isn't the one being run,
+  // like a module it imports.
+  file?: string
 }
 
-export default Token
\ No newline at end of file
+export default Token
@@ -4,15 +4,21 @@ enum TokenType {
   RIGHT_PAREN,
   LEFT_BRACE,
   RIGHT_BRACE,
+  LEFT_BRACKET,
+  RIGHT_BRACKET,
+  COLON,
   COMMA,
   DOT,
   MINUS,
+  PERCENT,
   PLUS,
+  QUESTION,
   SEMICOLON,
   SLASH,
   STAR,
 
   // One or two character tokens.
+  ARROW,
   BANG,
   BANG_EQUAL,
   EQUAL,
@@ -21,27 +27,47 @@ enum TokenType {
   GREATER_EQUAL,
   LESS,
   LESS_EQUAL,
+  MINUS_EQUAL,
+  MINUS_MINUS,
+  PLUS_EQUAL,
+  PLUS_PLUS,
+  QUESTION_DOT,
+  QUESTION_QUESTION,
+  SLASH_EQUAL,
+  STAR_EQUAL,
+  STAR_STAR,
 
   // LiteralExprs.
   IDENTIFIER,
   STRING,
+  // The part of a string literal before a `${`. The embedded expression's
+  // tokens follow it, then the rest of the string, starting at the `}`.
+  INTERPOLATION,
   NUMBER,
 
   // Keywords.
   AND,
+  AS,
+  BREAK,
+  CATCH,
   CLASS,
+  CONTINUE,
   ELSE,
   FALSE,
+  FINALLY,
   FUN,
   FOR,
   IF,
+  IMPORT,
   NIL,
   OR,
   PRINT,
   RETURN,
   SUPER,
   THIS,
+  THROW,
   TRUE,
+  TRY,
   VAR,
   WHILE,
 
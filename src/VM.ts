@@ -0,0 +1,728 @@
+import Token from "./Token"
+import { ImportStmt, Stmt } from "./Ast"
+import { ErrorReporter } from "./Error"
+import { FunctionProto, OpCode } from "./Chunk"
+import { Compiler } from "./Compiler"
+import {
+  Arity,
+  CallFrame,
+  InterpreterOptions,
+  LoxList,
+  LoxMap,
+  LoxError,
+  LoxNamespace,
+  LoxThrow,
+  RuntimeError,
+  caughtValue,
+  checkArity,
+  isCallable,
+  isEqual,
+  isTruthy,
+  MAX_CALL_DEPTH,
+  stringify,
+} from "./Interpreter"
+import { NativeArity, NativeFunction, NativeImplementation } from "./Native"
+import { defineStdlib } from "./Stdlib"
+import { Module, ModuleLoader, moduleNamespace } from "./Module"
+
+// A variable captured by a closure. While the variable's function is still
+// running it lives on the VM stack at `slot`; once that slot goes away the
+// value moves into the upvalue itself.
+class VMUpvalue {
+  slot: number
+  closed: any = null
+  isOpen = true
+  next: VMUpvalue | null = null
+
+  constructor(slot: number) {
+    this.slot = slot
+  }
+}
+
+export class VMClosure {
+  readonly proto: FunctionProto
+  readonly upvalues: VMUpvalue[]
+  // The globals of the module the closure was created in.
+  readonly globals: { [name: string]: any }
+
+  constructor(proto: FunctionProto, upvalues: VMUpvalue[], globals: { [name: string]: any }) {
+    this.proto = proto
+    this.upvalues = upvalues
+    this.globals = globals
+  }
+
+  toString() {
+    return this.proto.toString()
+  }
+}
+
+export class VMClass {
+  readonly name: string
+  readonly methods: { [name: string]: VMClosure } = {}
+  // Class methods and class variables aren't copied down by INHERIT, but
+  // looked up through `superclass`, so subclasses see later assignments.
+  readonly classMethods: { [name: string]: VMClosure } = {}
+  readonly fields: { [name: string]: any } = {}
+  superclass: VMClass | null = null
+
+  constructor(name: string) {
+    this.name = name
+  }
+
+  arity(): number {
+    return this.methods.hasOwnProperty("init") ? this.methods.init.proto.arity : 0
+  }
+
+  toString() {
+    return this.name
+  }
+}
+
+export class VMInstance {
+  readonly klass: VMClass
+  readonly fields: { [name: string]: any } = {}
+
+  constructor(klass: VMClass) {
+    this.klass = klass
+  }
+
+  toString() {
+    return `${this.klass.name} instance`
+  }
+}
+
+export class VMBoundMethod {
+  readonly receiver: VMInstance
+  readonly method: VMClosure
+
+  constructor(receiver: VMInstance, method: VMClosure) {
+    this.receiver = receiver
+    this.method = method
+  }
+
+  toString() {
+    return this.method.toString()
+  }
+}
+
+// Where to go when an error is raised inside a try statement.
+type Handler = {
+  // The frames and stack the handler's code expects, unwound to on an error.
+  frameCount: number
+  stackHeight: number
+  target: number
+  // A finally clause gets the error itself, to raise again once it's run.
+  // A catch clause gets the Lox value for it.
+  isFinally: boolean
+}
+
+type Frame = {
+  closure: VMClosure
+  ip: number
+  // Stack index of slot zero, which holds the callee or receiver.
+  base: number
+  // The closing paren of the call that made this frame, null for the script.
+  callSite: Token | null
+  // Set for the top level of an imported module, which returns its namespace.
+  namespace: LoxNamespace | null
+}
+
+// Runs programs by compiling them to bytecode first. It behaves the same as
+// the tree-walking Interpreter, down to error messages and where they point.
+export class VM {
+  // The script's globals. Each module has its own.
+  private globals: { [name: string]: any } = {}
+  // Every native, which each module's globals start with.
+  private builtins: { [name: string]: any } = {}
+  // The namespace of each module that has run.
+  private modules = new Map<Module, LoxNamespace>()
+  private loader: ModuleLoader | null
+  private stack: any[] = []
+  private frames: Frame[] = []
+  private openUpvalues: VMUpvalue | null = null
+  // The active handlers, innermost last.
+  private handlers: Handler[] = []
+  private reporter: ErrorReporter
+  private stdout: (text: string) => void
+
+  constructor(reporter: ErrorReporter, options: InterpreterOptions = {}) {
+    this.reporter = reporter
+    this.stdout = options.stdout ?? ((text) => process.stdout.write(text))
+    this.loader = options.loader ?? null
+    defineStdlib(this)
+  }
+
+  interpret(statements: Stmt[]) {
+    const script = new VMClosure(new Compiler().compile(statements), [], this.globals)
+    this.stack.push(script)
+    this.frames.push({ closure: script, ip: 0, base: 0, callSite: null, namespace: null })
+
+    try {
+      this.run()
+    } catch (e) {
+      if (e instanceof RuntimeError) {
+        this.reporter.runtimeError(e)
+      } else {
+        throw e
+      }
+    } finally {
+      this.stack = []
+      this.frames = []
+      this.openUpvalues = null
+      this.handlers = []
+    }
+  }
+
+  defineNative(name: string, arity: NativeArity, implementation: NativeImplementation) {
+    const native = new NativeFunction(name, arity, implementation)
+    this.builtins[name] = native
+    this.globals[name] = native
+  }
+
+  private run() {
+    let frame = this.frames[this.frames.length - 1]
+    let chunk = frame.closure.proto.chunk
+    let start = 0
+
+    const readByte = () => chunk.code[frame.ip++]
+    const readConstant = () => chunk.constants[readByte()]
+    const error = (message: string) => new RuntimeError(chunk.tokens[start]!, message)
+    const numbers = () => {
+      const right = this.pop()
+      const left = this.pop()
+      if (typeof left !== "number" || typeof right !== "number") {
+        throw error("Operands must be numbers.")
+      }
+      return [left, right]
+    }
+
+    while (true) {
+      start = frame.ip
+      try {
+        const instruction: OpCode = readByte()
+        switch (instruction) {
+          case OpCode.CONSTANT:
+            this.stack.push(readConstant())
+            break
+          case OpCode.NIL:
+            this.stack.push(null)
+            break
+          case OpCode.TRUE:
+            this.stack.push(true)
+            break
+          case OpCode.FALSE:
+            this.stack.push(false)
+            break
+          case OpCode.DUP:
+            this.stack.push(this.peek(readByte()))
+            break
+          case OpCode.SWAP: {
+            const top = this.pop()
+            const below = this.pop()
+            this.stack.push(top, below)
+            break
+          }
+          case OpCode.POP:
+            this.pop()
+            break
+          case OpCode.GET_LOCAL:
+            this.stack.push(this.stack[frame.base + readByte()])
+            break
+          case OpCode.SET_LOCAL:
+            this.stack[frame.base + readByte()] = this.peek(0)
+            break
+          case OpCode.GET_GLOBAL: {
+            const name: string = readConstant()
+            const globals = frame.closure.globals
+            if (!globals.hasOwnProperty(name)) {
+              throw error(`Undefined variable '${name}'.`)
+            }
+            this.stack.push(globals[name])
+            break
+          }
+          case OpCode.DEFINE_GLOBAL:
+            frame.closure.globals[readConstant()] = this.pop()
+            break
+          case OpCode.SET_GLOBAL: {
+            const name: string = readConstant()
+            const globals = frame.closure.globals
+            if (!globals.hasOwnProperty(name)) {
+              throw error(`Undefined variable '${name}'.`)
+            }
+            globals[name] = this.peek(0)
+            break
+          }
+          case OpCode.GET_UPVALUE: {
+            const upvalue = frame.closure.upvalues[readByte()]
+            this.stack.push(upvalue.isOpen ? this.stack[upvalue.slot] : upvalue.closed)
+            break
+          }
+          case OpCode.SET_UPVALUE: {
+            const upvalue = frame.closure.upvalues[readByte()]
+            if (upvalue.isOpen) {
+              this.stack[upvalue.slot] = this.peek(0)
+            } else {
+              upvalue.closed = this.peek(0)
+            }
+            break
+          }
+          case OpCode.GET_PROPERTY: {
+            const name: string = readConstant()
+            const token = chunk.tokens[start]!
+            const value = this.getProperty(this.pop(), name, token)
+            this.stack.push(value)
+            if (isGetter(value) && this.callValue(0, token)) {
+              frame = this.frames[this.frames.length - 1]
+              chunk = frame.closure.proto.chunk
+            }
+            break
+          }
+          case OpCode.CHECK_INSTANCE: {
+            const object = this.peek(0)
+            if (!(object instanceof VMInstance || object instanceof VMClass)) {
+              throw error("Only instances have fields.")
+            }
+            break
+          }
+          case OpCode.SET_PROPERTY: {
+            const value = this.pop()
+            const object: VMInstance | VMClass = this.pop()
+            object.fields[readConstant()] = value
+            this.stack.push(value)
+            break
+          }
+          case OpCode.GET_SUPER: {
+            const name: string = readConstant()
+            const superclass: VMClass = this.pop()
+            const instance: VMInstance = this.pop()
+            if (!superclass.methods.hasOwnProperty(name)) {
+              throw error(`Undefined property '${name}'.`)
+            }
+            const method = new VMBoundMethod(instance, superclass.methods[name])
+            this.stack.push(method)
+            if (isGetter(method) && this.callValue(0, chunk.tokens[start]!)) {
+              frame = this.frames[this.frames.length - 1]
+              chunk = frame.closure.proto.chunk
+            }
+            break
+          }
+          case OpCode.EQUAL: {
+            const right = this.pop()
+            this.stack.push(isEqual(this.pop(), right))
+            break
+          }
+          case OpCode.GREATER: {
+            const [left, right] = numbers()
+            this.stack.push(left > right)
+            break
+          }
+          case OpCode.GREATER_EQUAL: {
+            const [left, right] = numbers()
+            this.stack.push(left >= right)
+            break
+          }
+          case OpCode.LESS: {
+            const [left, right] = numbers()
+            this.stack.push(left < right)
+            break
+          }
+          case OpCode.LESS_EQUAL: {
+            const [left, right] = numbers()
+            this.stack.push(left <= right)
+            break
+          }
+          case OpCode.ADD: {
+            const right = this.pop()
+            const left = this.pop()
+            if (typeof left === "number" && typeof right === "number") {
+              this.stack.push(left + right)
+            } else if (typeof left === "string" && typeof right === "string") {
+              this.stack.push(left + right)
+            } else {
+              throw error("Operands must be two numbers or two strings.")
+            }
+            break
+          }
+          case OpCode.SUBTRACT: {
+            const [left, right] = numbers()
+            this.stack.push(left - right)
+            break
+          }
+          case OpCode.MULTIPLY: {
+            const [left, right] = numbers()
+            this.stack.push(left * right)
+            break
+          }
+          case OpCode.DIVIDE: {
+            const [left, right] = numbers()
+            this.stack.push(left / right)
+            break
+          }
+          case OpCode.MODULO: {
+            const [left, right] = numbers()
+            this.stack.push(left % right)
+            break
+          }
+          case OpCode.POWER: {
+            const [left, right] = numbers()
+            this.stack.push(Math.pow(left, right))
+            break
+          }
+          case OpCode.NOT:
+            this.stack.push(!isTruthy(this.pop()))
+            break
+          case OpCode.NEGATE: {
+            const operand = this.pop()
+            if (typeof operand !== "number") throw error("Operand must be a number.")
+            this.stack.push(-operand)
+            break
+          }
+          case OpCode.PRINT:
+            this.stdout(stringify(this.pop()) + "\n")
+            break
+          case OpCode.JUMP:
+            frame.ip = readByte()
+            break
+          case OpCode.JUMP_IF_FALSE: {
+            const target = readByte()
+            if (!isTruthy(this.peek(0))) frame.ip = target
+            break
+          }
+          case OpCode.JUMP_IF_NIL: {
+            const target = readByte()
+            if (this.peek(0) === null) frame.ip = target
+            break
+          }
+          case OpCode.CALL: {
+            const argCount = readByte()
+            if (this.callValue(argCount, chunk.tokens[start]!)) {
+              frame = this.frames[this.frames.length - 1]
+              chunk = frame.closure.proto.chunk
+            }
+            break
+          }
+          case OpCode.CLOSURE: {
+            const proto: FunctionProto = readConstant()
+            const upvalues: VMUpvalue[] = []
+            for (let i = 0; i < proto.upvalueCount; i++) {
+              const isLocal = readByte() === 1
+              const index = readByte()
+              upvalues.push(
+                isLocal ? this.captureUpvalue(frame.base + index) : frame.closure.upvalues[index]
+              )
+            }
+            this.stack.push(new VMClosure(proto, upvalues, frame.closure.globals))
+            break
+          }
+          case OpCode.CLOSE_UPVALUE:
+            this.closeUpvalues(this.stack.length - 1)
+            this.pop()
+            break
+          case OpCode.RETURN: {
+            const result = this.pop()
+            this.closeUpvalues(frame.base)
+            this.frames.pop()
+            if (this.frames.length === 0) return
+
+            this.stack.length = frame.base
+            this.stack.push(frame.namespace ?? result)
+            frame = this.frames[this.frames.length - 1]
+            chunk = frame.closure.proto.chunk
+            break
+          }
+          case OpCode.CLASS:
+            this.stack.push(new VMClass(readConstant()))
+            break
+          case OpCode.CHECK_SUPERCLASS:
+            if (!(this.peek(0) instanceof VMClass)) {
+              throw error("Superclass must be a class")
+            }
+            break
+          case OpCode.INHERIT: {
+            const subclass: VMClass = this.pop()
+            const superclass: VMClass = this.peek(0)
+            for (const name of Object.keys(superclass.methods)) {
+              subclass.methods[name] = superclass.methods[name]
+            }
+            subclass.superclass = superclass
+            break
+          }
+          case OpCode.METHOD: {
+            const method: VMClosure = this.pop()
+            const klass: VMClass = this.peek(0)
+            klass.methods[readConstant()] = method
+            break
+          }
+          case OpCode.CLASS_METHOD: {
+            const method: VMClosure = this.pop()
+            const klass: VMClass = this.peek(0)
+            klass.classMethods[readConstant()] = method
+            break
+          }
+          case OpCode.LIST: {
+            const count = readByte()
+            const elements = this.stack.splice(this.stack.length - count, count)
+            this.stack.push(new LoxList(elements))
+            break
+          }
+          case OpCode.INTERPOLATE: {
+            const count = readByte()
+            const parts = this.stack.splice(this.stack.length - count, count)
+            this.stack.push(parts.map(stringify).join(""))
+            break
+          }
+          case OpCode.MAP:
+            this.stack.push(new LoxMap())
+            break
+          case OpCode.MAP_ENTRY: {
+            const value = this.pop()
+            const key = this.pop()
+            const map: LoxMap = this.peek(0)
+            map.setIndex(chunk.tokens[start]!, key, value)
+            break
+          }
+          case OpCode.CHECK_INDEXABLE: {
+            const object = this.peek(1)
+            if (!(object instanceof LoxList || object instanceof LoxMap)) {
+              throw error("Only lists and maps can be indexed.")
+            }
+            break
+          }
+          case OpCode.GET_INDEX: {
+            const index = this.pop()
+            const object = this.pop()
+            if (!(object instanceof LoxList || object instanceof LoxMap)) {
+              throw error("Only lists and maps can be indexed.")
+            }
+            this.stack.push(object.getIndex(chunk.tokens[start]!, index))
+            break
+          }
+          case OpCode.SET_INDEX: {
+            const value = this.pop()
+            const index = this.pop()
+            const object: LoxList | LoxMap = this.pop()
+            object.setIndex(chunk.tokens[start]!, index, value)
+            this.stack.push(value)
+            break
+          }
+          case OpCode.TRY:
+          case OpCode.TRY_FINALLY:
+            this.handlers.push({
+              frameCount: this.frames.length,
+              stackHeight: this.stack.length,
+              target: readByte(),
+              isFinally: instruction === OpCode.TRY_FINALLY,
+            })
+            break
+          case OpCode.END_TRY:
+            this.handlers.pop()
+            break
+          case OpCode.THROW:
+            throw new LoxThrow(chunk.tokens[start]!, this.pop())
+          case OpCode.RETHROW:
+            throw this.pop()
+          case OpCode.IMPORT:
+            if (this.importModule(readConstant(), chunk.tokens[start]!)) {
+              frame = this.frames[this.frames.length - 1]
+              chunk = frame.closure.proto.chunk
+            }
+            break
+          default:
+            throw new Error(`Unknown opcode ${instruction}.`)
+        }
+      } catch (e) {
+        if (!(e instanceof RuntimeError)) throw e
+        if (!e.callStack) e.callStack = this.getCallStack()
+
+        const handler = this.handlers.pop()
+        if (!handler) throw e
+        this.closeUpvalues(handler.stackHeight)
+        this.frames.length = handler.frameCount
+        this.stack.length = handler.stackHeight
+        this.stack.push(handler.isFinally ? e : caughtValue(e))
+        frame = this.frames[this.frames.length - 1]
+        chunk = frame.closure.proto.chunk
+        frame.ip = handler.target
+      }
+    }
+  }
+
+  // Starts a call to the value below the arguments. Returns true when a new
+  // frame was pushed, false when the call already finished (natives).
+  private callValue(argCount: number, paren: Token): boolean {
+    const base = this.stack.length - argCount - 1
+    const callee = this.stack[base]
+
+    if (callee instanceof VMBoundMethod) {
+      this.stack[base] = callee.receiver
+      return this.call(callee.method, argCount, paren)
+    }
+
+    if (callee instanceof VMClass) {
+      this.checkArity(callee.arity(), argCount, paren)
+      this.stack[base] = new VMInstance(callee)
+      if (callee.methods.hasOwnProperty("init")) {
+        return this.call(callee.methods.init, argCount, paren)
+      }
+      this.stack.length = base + 1
+      return false
+    }
+
+    if (callee instanceof VMClosure) {
+      return this.call(callee, argCount, paren)
+    }
+
+    if (isCallable(callee)) {
+      this.checkArity(callee.arity(), argCount, paren)
+      const args = this.stack.slice(base + 1)
+      const result = callee.call(args, paren)
+      this.stack.length = base
+      this.stack.push(result)
+      return false
+    }
+
+    throw new RuntimeError(paren, "Can only call functions and classes")
+  }
+
+  private call(closure: VMClosure, argCount: number, paren: Token): boolean {
+    this.checkArity(closure.proto.arity, argCount, paren)
+    // The script's own frame doesn't count as a call.
+    if (this.frames.length > MAX_CALL_DEPTH) {
+      throw new RuntimeError(paren, "Stack overflow.")
+    }
+
+    this.frames.push({
+      closure,
+      ip: 0,
+      base: this.stack.length - argCount - 1,
+      callSite: paren,
+      namespace: null,
+    })
+    return true
+  }
+
+  // Pushes the namespace of an imported module, or when the module hasn't
+  // run yet, a frame running its top level that returns the namespace.
+  // Returns true when a frame was pushed.
+  private importModule(stmt: ImportStmt, path: Token): boolean {
+    const module = this.loader?.load(stmt)
+    if (!module) throw new RuntimeError(path, `Cannot load module '${path.literal}'.`)
+
+    const imported = this.modules.get(module)
+    if (imported) {
+      this.stack.push(imported)
+      return false
+    }
+
+    const globals: { [name: string]: any } = {}
+    for (const name of Object.keys(this.builtins)) {
+      globals[name] = this.builtins[name]
+    }
+    const closure = new VMClosure(new Compiler().compile(module.statements), [], globals)
+    const namespace = moduleNamespace(module, globals)
+    this.modules.set(module, namespace)
+
+    this.stack.push(closure)
+    this.frames.push({
+      closure,
+      ip: 0,
+      base: this.stack.length - 1,
+      callSite: null,
+      namespace,
+    })
+    return true
+  }
+
+  private checkArity(arity: Arity, argCount: number, paren: Token) {
+    const mismatch = checkArity(arity, argCount)
+    if (mismatch) throw new RuntimeError(paren, mismatch)
+  }
+
+  private getProperty(object: any, name: string, token: Token): any {
+    if (object instanceof VMInstance) {
+      if (object.fields.hasOwnProperty(name)) {
+        return object.fields[name]
+      }
+      if (object.klass.methods.hasOwnProperty(name)) {
+        return new VMBoundMethod(object, object.klass.methods[name])
+      }
+      throw new RuntimeError(token, `Undefined property '${name}'.`)
+    }
+
+    if (object instanceof VMClass) {
+      for (let klass: VMClass | null = object; klass; klass = klass.superclass) {
+        if (klass.fields.hasOwnProperty(name)) return klass.fields[name]
+        if (klass.classMethods.hasOwnProperty(name)) return klass.classMethods[name]
+      }
+      throw new RuntimeError(token, `Undefined property '${name}'.`)
+    }
+
+    if (
+      object instanceof LoxNamespace ||
+      object instanceof LoxList ||
+      object instanceof LoxMap ||
+      object instanceof LoxError
+    ) {
+      return object.get(token)
+    }
+
+    throw new RuntimeError(token, "Only instances have properties.")
+  }
+
+  private captureUpvalue(slot: number): VMUpvalue {
+    // Open upvalues are kept sorted by slot, highest first.
+    let previous: VMUpvalue | null = null
+    let upvalue = this.openUpvalues
+    while (upvalue && upvalue.slot > slot) {
+      previous = upvalue
+      upvalue = upvalue.next
+    }
+    if (upvalue && upvalue.slot === slot) return upvalue
+
+    const created = new VMUpvalue(slot)
+    created.next = upvalue
+    if (previous) {
+      previous.next = created
+    } else {
+      this.openUpvalues = created
+    }
+    return created
+  }
+
+  // Moves every open upvalue at or above `last` off the stack.
+  private closeUpvalues(last: number) {
+    while (this.openUpvalues && this.openUpvalues.slot >= last) {
+      const upvalue = this.openUpvalues
+      upvalue.closed = this.stack[upvalue.slot]
+      upvalue.isOpen = false
+      this.openUpvalues = upvalue.next
+    }
+  }
+
+  // The active Lox calls in the same shape the Interpreter reports them.
+  // Modules running their top level aren't calls.
+  private getCallStack(): CallFrame[] {
+    return this.frames
+      .slice(1)
+      .filter((frame) => !frame.namespace)
+      .map((frame) => ({
+        functionName: frame.closure.proto.name,
+        className: frame.closure.proto.className,
+        callSite: frame.callSite,
+      }))
+  }
+
+  private peek(distance: number): any {
+    return this.stack[this.stack.length - 1 - distance]
+  }
+
+  private pop(): any {
+    return this.stack.pop()
+  }
+}
+
+// Getters are called with no arguments as soon as they're read.
+function isGetter(value: any): boolean {
+  if (value instanceof VMBoundMethod) return value.method.proto.isGetter
+  return value instanceof VMClosure && value.proto.isGetter
+}
@@ -0,0 +1,32 @@
+export { createLox, toJs, fromJs, Lox, LoxCallError, LoxOptions, LoxResult } from "./Runtime"
+export {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticNote,
+  Severity,
+  renderDiagnostic,
+} from "./Diagnostic"
+export { Span, Position, spanOf, tokenSpan } from "./Span"
+export {
+  Interpreter,
+  CallFrame,
+  LoxCallable,
+  LoxClass,
+  LoxFunction,
+  LoxInstance,
+  LoxList,
+  LoxMap,
+  LoxNamespace,
+  Arity,
+  Activation,
+  RuntimeError,
+  stringify,
+} from "./Interpreter"
+export { NativeArity, NativeError, NativeFunction, NativeImplementation } from "./Native"
+export { VM } from "./VM"
+export { format } from "./Formatter"
+export { lint, LintRule, lintRules } from "./Linter"
+export { analyze, Analysis, Definition, OutlineSymbol, SymbolKind } from "./Analysis"
+export { LanguageServer, serve } from "./LanguageServer"
+export { Debugger, DebugFrame, DebugScope, StopReason, Terminated } from "./Debugger"
+export { FileLoader, Module, ModuleLoader } from "./Module"
@@ -1,59 +1,340 @@
-import { readFileSync } from "fs"
+import { readFileSync, writeFileSync } from "fs"
 import readline from "readline"
 import Scanner from "./Scanner"
-import { setHadError, getHadError } from "./Error"
+import { ErrorReporter } from "./Error"
 import Parser from "./Parser"
 import { Interpreter } from "./Interpreter"
-import { Resolver } from "./Resolver"
+import { Resolver, ResolutionTarget } from "./Resolver"
+import { VM } from "./VM"
+import { renderDiagnostic } from "./Diagnostic"
+import { format } from "./Formatter"
+import { astToJson, dumpAst, dumpTokens } from "./Dump"
+import { Expr } from "./Ast"
+import { lint, LintRule, lintRules } from "./Linter"
+import { serve } from "./LanguageServer"
+import { MessageReader } from "./Rpc"
+import { DebugConsole } from "./DebugConsole"
+import { DebugAdapter } from "./DebugAdapter"
+import { FileLoader } from "./Module"
+
+type DiagnosticFormat = "pretty" | "json"
+
+type DumpMode = "tokens" | "ast" | "ast-json"
+
+type Options = {
+  diagnostics: DiagnosticFormat
+  // Run on the bytecode VM instead of the tree-walking interpreter.
+  vm: boolean
+  // Print the tokens or tree of the script instead of running it.
+  dump: DumpMode | null
+  // The lint rules to warn about before running, or null to skip linting.
+  lint: LintRule[] | null
+}
+
+type Backend = Interpreter | VM
+
+const usage = [
+  "usage: node lox.js [--diagnostics=pretty|json] [--vm] [--lint[=rule,...]] [script]",
+  "       node lox.js [--dump-tokens | --dump-ast[=json]] script",
+  "       node lox.js fmt [--check] [--diagnostics=pretty|json] [file...]",
+  "       node lox.js lsp",
+  "       node lox.js debug [--dap | script]",
+].join("\n")
 
 function main(args: string[]) {
-  if (args.length > 1) {
-    console.log("usage: node lox.js [script]")
+  if (args[0] === "fmt") {
+    formatMain(args.slice(1))
+    return
+  }
+  if (args[0] === "lsp") {
+    if (args.length > 1) {
+      console.log(usage)
+      process.exitCode = 64
+      return
+    }
+    // Stdout carries the protocol, so nothing else may be printed.
+    process.exitCode = serve(new MessageReader(0), 1)
+    return
+  }
+  if (args[0] === "debug") {
+    debugMain(args.slice(1))
+    return
+  }
+
+  const options: Options = { diagnostics: "pretty", vm: false, dump: null, lint: null }
+  const paths: string[] = []
+
+  for (const arg of args) {
+    if (arg === "--diagnostics=pretty" || arg === "--diagnostics=json") {
+      options.diagnostics = arg.substring("--diagnostics=".length) as DiagnosticFormat
+    } else if (arg === "--vm") {
+      options.vm = true
+    } else if (arg === "--lint") {
+      options.lint = lintRules
+    } else if (arg.startsWith("--lint=")) {
+      const rules = arg.substring("--lint=".length).split(",")
+      const unknown = rules.filter((rule) => lintRules.indexOf(rule as LintRule) === -1)
+      if (unknown.length) {
+        console.log(`Unknown lint rule '${unknown[0]}'. Rules: ${lintRules.join(", ")}.`)
+        process.exitCode = 64
+        return
+      }
+      options.lint = rules as LintRule[]
+    } else if (arg === "--dump-tokens") {
+      options.dump = "tokens"
+    } else if (arg === "--dump-ast") {
+      options.dump = "ast"
+    } else if (arg === "--dump-ast=json") {
+      options.dump = "ast-json"
+    } else if (arg.startsWith("--")) {
+      console.log(usage)
+      process.exitCode = 64
+      return
+    } else {
+      paths.push(arg)
+    }
+  }
+
+  if (paths.length > 1 || (options.dump && paths.length === 0)) {
+    console.log(usage)
+    process.exitCode = 64
     return
-  } else if (args.length === 1) {
-    runFile(args[0])
+  } else if (options.dump) {
+    dumpFile(paths[0], options.dump, options)
+  } else if (paths.length === 1) {
+    runFile(paths[0], options)
   } else {
-    runPrompt()
+    runPrompt(options)
+  }
+}
+
+// Rewrites each file in the canonical format, or with `--check` only lists
+// the ones that would change and exits with 1. Without files it formats
+// stdin to stdout.
+function formatMain(args: string[]) {
+  const options: Options = { diagnostics: "pretty", vm: false, dump: null, lint: null }
+  const paths: string[] = []
+  let check = false
+
+  for (const arg of args) {
+    if (arg === "--diagnostics=pretty" || arg === "--diagnostics=json") {
+      options.diagnostics = arg.substring("--diagnostics=".length) as DiagnosticFormat
+    } else if (arg === "--check") {
+      check = true
+    } else if (arg.startsWith("--")) {
+      console.log(usage)
+      process.exitCode = 64
+      return
+    } else {
+      paths.push(arg)
+    }
+  }
+
+  if (paths.length === 0) {
+    const source = readFileSync(0, { encoding: "utf-8" })
+    const formatted = formatSource(source, "stdin", options)
+    if (formatted === null) return
+    if (check) {
+      if (formatted !== source) process.exitCode = 1
+    } else {
+      process.stdout.write(formatted)
+    }
+    return
+  }
+
+  for (const path of paths) {
+    const source = readInput(path)
+    if (source === null) continue
+    const formatted = formatSource(source, path, options)
+    if (formatted === null || formatted === source) continue
+
+    if (check) {
+      console.log(`${path} is not formatted.`)
+      if (!process.exitCode) process.exitCode = 1
+    } else {
+      writeFileSync(path, formatted)
+    }
   }
 }
 
-function runFile(path: string) {
+// Debugs a script in the terminal, or with `--dap` serves the Debug Adapter
+// Protocol on stdio for an editor to launch scripts with.
+function debugMain(args: string[]) {
+  if (args.length === 1 && args[0] === "--dap") {
+    new DebugAdapter(new MessageReader(0), 1).serve()
+    return
+  }
+  if (args.length !== 1 || args[0].startsWith("--")) {
+    console.log(usage)
+    process.exitCode = 64
+    return
+  }
+
+  const path = args[0]
+  const source = readFileSync(path, { encoding: "utf-8" })
+  const options: Options = { diagnostics: "pretty", vm: false, dump: null, lint: null }
+  const reporter = new ErrorReporter()
+  const loader = new FileLoader(reporter)
+  const interpreter = new Interpreter(reporter, { loader })
+  const statements = new Parser(new Scanner(source, reporter).scanTokens(), reporter).parse()
+  if (!reporter.hadError) {
+    loader.loadImports(statements, path, interpreter)
+    new Resolver(interpreter, reporter).resolveStatements(statements)
+  }
+
+  if (!reporter.hadError) new DebugConsole(interpreter, source).run(statements)
+  printDiagnostics(reporter, source, path, options, loader.sources)
+  if (reporter.hadError) process.exitCode = 65
+  if (reporter.hadRuntimeError) process.exitCode = 70
+}
+
+// Reads a file named on the command line, or when it can't be read, says so
+// and sets exit code 66, sysexits' "cannot open input".
+function readInput(path: string): string | null {
+  try {
+    return readFileSync(path, { encoding: "utf-8" })
+  } catch (e) {
+    console.error(`Cannot open '${path}'.`)
+    process.exitCode = 66
+    return null
+  }
+}
+
+function formatSource(source: string, file: string, options: Options): string | null {
+  const reporter = new ErrorReporter()
+  const formatted = format(source, reporter)
+  printDiagnostics(reporter, source, file, options)
+  if (formatted === null) process.exitCode = 65
+  return formatted
+}
+
+function runFile(path: string, options: Options) {
   const str = readFileSync(path, { encoding: "utf-8" })
-  run(str)
+  const reporter = new ErrorReporter()
+  const loader = new FileLoader(reporter)
+  run(str, path, createBackend(reporter, loader, options), loader, reporter, options)
+  printDiagnostics(reporter, str, path, options, loader.sources)
+
+  // The exit codes jlox uses, from sysexits.h.
+  if (reporter.hadError) process.exitCode = 65
+  if (reporter.hadRuntimeError) process.exitCode = 70
 }
 
-function runPrompt() {
+function dumpFile(path: string, mode: DumpMode, options: Options) {
+  const source = readFileSync(path, { encoding: "utf-8" })
+  const reporter = new ErrorReporter()
+  const output = dump(source, mode, reporter)
+  if (output !== null) console.log(output)
+
+  printDiagnostics(reporter, source, path, options)
+  if (reporter.hadError) process.exitCode = 65
+}
+
+// Tokens are printed even when scanning reports errors, since seeing what
+// the scanner made of bad input is the point. The tree needs a clean parse.
+function dump(source: string, mode: DumpMode, reporter: ErrorReporter): string | null {
+  const tokens = new Scanner(source, reporter).scanTokens()
+  if (mode === "tokens") return dumpTokens(tokens)
+
+  const statements = new Parser(tokens, reporter).parse()
+  if (reporter.hadError || !statements) return null
+  if (mode === "ast") return dumpAst(statements)
+
+  // These are the depths an Interpreter would store in its `locals`.
+  const depths = new Map<Expr, number>()
+  new Resolver({ resolve: (expr, depth) => depths.set(expr, depth) }, reporter).resolveStatements(
+    statements
+  )
+  if (reporter.hadError) return null
+  return JSON.stringify(astToJson(statements, depths), null, 2)
+}
+
+function runPrompt(options: Options) {
+  // A single interpreter lives for the whole session so globals, classes and
+  // resolved locals from earlier lines stay visible to later ones. Imports
+  // are relative to the working directory.
+  const reporter = new ErrorReporter()
+  const loader = new FileLoader(reporter)
+  const interpreter = createBackend(reporter, loader, options)
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
   })
   rl.setPrompt(">")
   rl.prompt()
+  let count = 0
   rl.on("line", (input) => {
-    run(input)
-    setHadError(false)
+    // Each line is a file of its own, so errors in code from earlier lines
+    // show the line that code came from.
+    const file = `repl#${++count}`
+    loader.sources[file] = input
+    run(input, file, interpreter, loader, reporter, options)
+    printDiagnostics(reporter, input, file, options, loader.sources)
+    reporter.reset()
     rl.prompt()
   })
 }
 
-function run(source: string) {
-  const scanner = new Scanner(source)
+function createBackend(reporter: ErrorReporter, loader: FileLoader, options: Options): Backend {
+  return options.vm ? new VM(reporter, { loader }) : new Interpreter(reporter, { loader })
+}
+
+// `source` and `file` are the file being run. Diagnostics in the modules it
+// imports take their text from `sources`.
+function printDiagnostics(
+  reporter: ErrorReporter,
+  source: string,
+  file: string,
+  options: Options,
+  sources: { [file: string]: string } = {}
+) {
+  for (const diagnostic of reporter.diagnostics) {
+    if (options.diagnostics === "json") {
+      console.error(JSON.stringify({ file: diagnostic.span?.file ?? file, ...diagnostic }))
+    } else {
+      console.error(renderDiagnostic(diagnostic, source, file, sources))
+    }
+  }
+}
+
+// Runs `source`, the code in `file`, once it and everything it imports
+// compile cleanly. Its tokens name `file` when the loader keeps its text,
+// like it does for REPL lines; the main file's leave it out.
+function run(
+  source: string,
+  file: string,
+  interpreter: Backend,
+  loader: FileLoader,
+  reporter: ErrorReporter,
+  options: Options
+) {
+  const named = loader.sources.hasOwnProperty(file)
+  const scanner = new Scanner(source, reporter, named ? file : undefined)
   const tokens = scanner.scanTokens()
-  const parser = new Parser(tokens)
+  const parser = new Parser(tokens, reporter)
 
   const statements = parser.parse()
 
-  if (getHadError() || !statements) {
+  if (reporter.hadError || !statements) {
     return
   }
-  const interpreter = new Interpreter()
-  const resolver = new Resolver(interpreter)
+  // The VM resolves variables itself while compiling, so it only needs the
+  // resolver's errors.
+  const target: ResolutionTarget =
+    interpreter instanceof VM ? { resolve: () => undefined } : interpreter
+  loader.loadImports(statements, file, target)
+  const resolver = new Resolver(target, reporter)
   resolver.resolveStatements(statements)
 
-  if (getHadError()) {
+  if (reporter.hadError) {
     return
   }
 
+  // Warnings are reported alongside the program's output; they never stop it.
+  if (options.lint) {
+    lint(statements, scanner.comments, source, reporter, options.lint)
+  }
+
   interpreter.interpret(statements)
 }
 
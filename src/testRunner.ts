@@ -0,0 +1,572 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "fs"
+import { basename, dirname, join } from "path"
+import { spawnSync } from "child_process"
+import Scanner from "./Scanner"
+import { Diagnostic, DiagnosticCode, isRuntimeDiagnostic } from "./Diagnostic"
+import { ErrorReporter } from "./Error"
+import { format } from "./Formatter"
+
+// Runs every .lox file under a directory through the CLI and checks what it
+// prints against annotations in the file, in the style of the Crafting
+// Interpreters test suite:
+//
+//   print 1 + 2; // expect: 3
+//   print -nil; // expect runtime error: Operand must be a number.
+//   print 1 +; // Error at ';': Expected expression
+//   // [line 9] Error at end: Expect '}' after block.
+//   // [module.lox line 2] Error at ';': Expected expression
+//
+// The last form is for errors in a module the file imports.
+//
+// Files annotated with `// expect warning: Unreachable code.` run with
+// `--lint`, and must report exactly the warnings they expect.
+//
+// Compile errors must exit with 65 and runtime errors with 70. Every file is
+// run on both the tree-walking interpreter and the bytecode VM.
+//
+// Every file that parses must also survive `lox fmt`: formatting it again
+// changes nothing and no comment is lost. A file with a `.fmt` sibling must
+// format to exactly that.
+//
+// A file with a `.in` sibling is also run under `lox debug` with that as
+// its input, and must print exactly its `.out` sibling.
+//
+// Each .json file is a scripted session with the language server: it opens
+// a document, then sends requests and edits, checking every response. It can
+// also send raw notifications, checking how the error the server logs for
+// one starts.
+//
+// Each .dap file is a scripted session with the debug adapter, in JSON: it
+// launches a program, then sends requests, checking their responses and that
+// the events listed arrive in that order. Expected values only need the
+// fields they list, and source paths are relative to the .dap file.
+
+// `contains` checks only that the listed items are in the result array.
+type SessionStep =
+  | { change: string }
+  | { diagnostics: any[] }
+  | { notification: string; params?: any; log?: string }
+  | { request: string; params: any; result?: any; contains?: any[] }
+
+type Session = { document: string; steps: SessionStep[] }
+
+type AdapterStep =
+  | { request: string; arguments?: any; result?: any; error?: string }
+  | { event: string; body?: any }
+
+type AdapterSession = { program: string; launch?: any; steps: AdapterStep[] }
+
+type RuntimeExpectation = { line: number; message: string }
+
+type Expectations = {
+  output: string[]
+  errors: string[]
+  warnings: string[]
+  runtimeError: RuntimeExpectation | null
+  exitCode: number
+}
+
+const expectedOutputPattern = /\/\/ expect: ?(.*)/
+const expectedErrorPattern = /\/\/ (Error.*)/
+const expectedErrorLinePattern = /\/\/ \[((?:\S+ )?line \d+)\] (Error.*)/
+const expectedRuntimeErrorPattern = /\/\/ expect runtime error: (.+)/
+const expectedWarningPattern = /\/\/ expect warning: (.+)/
+
+const scanErrors = [
+  DiagnosticCode.UnexpectedCharacter,
+  DiagnosticCode.UnterminatedString,
+  DiagnosticCode.UnterminatedComment,
+  DiagnosticCode.InvalidEscape,
+]
+
+const backends: { name: string; flags: string[] }[] = [
+  { name: "interpreter", flags: [] },
+  { name: "vm", flags: ["--vm"] },
+]
+
+function main(args: string[]) {
+  const root = args[0] ?? "test"
+  const files = findTests(root, ".lox")
+  const sessions = findTests(root, ".json")
+  const adapterSessions = findTests(root, ".dap")
+  const failures: string[] = []
+
+  for (const file of files) {
+    for (const backend of backends) {
+      const problems = runTest(file, backend.flags)
+      if (problems.length) {
+        const details = problems.map((problem) => `  ${problem}`).join("\n")
+        failures.push(`FAIL ${file} (${backend.name})\n${details}`)
+      }
+    }
+
+    const formatProblems = checkFormatting(file)
+    if (formatProblems.length) {
+      const details = formatProblems.map((problem) => `  ${problem}`).join("\n")
+      failures.push(`FAIL ${file} (fmt)\n${details}`)
+    }
+  }
+
+  const transcripts = files.filter((file) => existsSync(file.replace(/\.lox$/, ".in")))
+  for (const file of transcripts) {
+    const problems = checkDebugTranscript(file)
+    if (problems.length) {
+      const details = problems.map((problem) => `  ${problem}`).join("\n")
+      failures.push(`FAIL ${file} (debug)\n${details}`)
+    }
+  }
+
+  for (const file of sessions) {
+    const problems = runSession(file)
+    if (problems.length) {
+      const details = problems.map((problem) => `  ${problem}`).join("\n")
+      failures.push(`FAIL ${file} (lsp)\n${details}`)
+    }
+  }
+
+  for (const file of adapterSessions) {
+    const problems = runAdapterSession(file)
+    if (problems.length) {
+      const details = problems.map((problem) => `  ${problem}`).join("\n")
+      failures.push(`FAIL ${file} (dap)\n${details}`)
+    }
+  }
+
+  for (const failure of failures) {
+    console.log(failure)
+  }
+  const total =
+    files.length * (backends.length + 1) +
+    transcripts.length +
+    sessions.length +
+    adapterSessions.length
+  console.log(`${total - failures.length} passed, ${failures.length} failed.`)
+  if (failures.length) process.exitCode = 1
+}
+
+function findTests(dir: string, extension: string): string[] {
+  const files: string[] = []
+  for (const entry of readdirSync(dir).sort()) {
+    const path = join(dir, entry)
+    if (statSync(path).isDirectory()) {
+      files.push(...findTests(path, extension))
+    } else if (entry.endsWith(extension)) {
+      files.push(path)
+    }
+  }
+  return files
+}
+
+function parseExpectations(source: string): Expectations {
+  const expectations: Expectations = {
+    output: [],
+    errors: [],
+    warnings: [],
+    runtimeError: null,
+    exitCode: 0,
+  }
+
+  source.split("\n").forEach((text, index) => {
+    const line = index + 1
+    let match = expectedOutputPattern.exec(text)
+    if (match) {
+      expectations.output.push(match[1])
+      return
+    }
+
+    match = expectedWarningPattern.exec(text)
+    if (match) {
+      expectations.warnings.push(`[line ${line}] ${match[1]}`)
+      return
+    }
+
+    match = expectedRuntimeErrorPattern.exec(text)
+    if (match) {
+      expectations.runtimeError = { line, message: match[1] }
+      expectations.exitCode = 70
+      return
+    }
+
+    match = expectedErrorLinePattern.exec(text)
+    if (match) {
+      expectations.errors.push(`[${match[1]}] ${match[2]}`)
+      expectations.exitCode = 65
+      return
+    }
+
+    match = expectedErrorPattern.exec(text)
+    if (match) {
+      expectations.errors.push(`[line ${line}] ${match[1]}`)
+      expectations.exitCode = 65
+    }
+  })
+
+  return expectations
+}
+
+function runTest(file: string, flags: string[]): string[] {
+  const source = readFileSync(file, { encoding: "utf-8" })
+  const expected = parseExpectations(source)
+  const lint = expected.warnings.length ? ["--lint"] : []
+  const result = spawnSync(
+    process.execPath,
+    [join(__dirname, "lox.js"), "--diagnostics=json", ...lint, ...flags, file],
+    { encoding: "utf-8" }
+  )
+
+  const problems: string[] = []
+  const output = result.stdout.split("\n")
+  if (output[output.length - 1] === "") output.pop()
+
+  const errors: string[] = []
+  const warnings: string[] = []
+  let runtimeError: RuntimeExpectation | null = null
+  for (const text of result.stderr.split("\n")) {
+    if (!text) continue
+    let diagnostic: Diagnostic
+    try {
+      diagnostic = JSON.parse(text)
+    } catch (e) {
+      problems.push(`Unexpected output on stderr: ${text}`)
+      continue
+    }
+
+    if (isRuntimeDiagnostic(diagnostic)) {
+      runtimeError = { line: diagnostic.span?.start.line ?? 0, message: diagnostic.message }
+    } else if (diagnostic.severity === "error") {
+      errors.push(formatCompileError(diagnostic, source))
+    } else if (diagnostic.severity === "warning") {
+      warnings.push(`[line ${diagnostic.span?.start.line ?? 0}] ${diagnostic.message}`)
+    }
+  }
+
+  for (let i = 0; i < Math.max(output.length, expected.output.length); i++) {
+    if (output[i] !== expected.output[i]) {
+      problems.push(
+        `Output line ${i + 1}: expected ${show(expected.output[i])} but got ${show(output[i])}.`
+      )
+      break
+    }
+  }
+
+  for (const error of expected.errors) {
+    if (errors.indexOf(error) === -1) problems.push(`Missing expected error: ${error}`)
+  }
+  for (const error of errors) {
+    if (expected.errors.indexOf(error) === -1) problems.push(`Unexpected error: ${error}`)
+  }
+
+  for (const warning of expected.warnings) {
+    if (warnings.indexOf(warning) === -1) problems.push(`Missing expected warning: ${warning}`)
+  }
+  for (const warning of warnings) {
+    if (expected.warnings.indexOf(warning) === -1) problems.push(`Unexpected warning: ${warning}`)
+  }
+
+  const expectedRuntime = expected.runtimeError
+  if (expectedRuntime && !runtimeError) {
+    problems.push(`Expected runtime error '${expectedRuntime.message}' but got none.`)
+  } else if (!expectedRuntime && runtimeError) {
+    problems.push(`Unexpected runtime error: ${runtimeError.message}`)
+  } else if (expectedRuntime && runtimeError) {
+    if (expectedRuntime.message !== runtimeError.message) {
+      problems.push(
+        `Expected runtime error '${expectedRuntime.message}' but got '${runtimeError.message}'.`
+      )
+    } else if (expectedRuntime.line !== runtimeError.line) {
+      problems.push(
+        `Expected runtime error on line ${expectedRuntime.line} but was on line ${runtimeError.line}.`
+      )
+    }
+  }
+
+  if (result.status !== expected.exitCode) {
+    problems.push(`Expected exit code ${expected.exitCode} but got ${result.status}.`)
+  }
+
+  return problems
+}
+
+function checkFormatting(file: string): string[] {
+  const source = readFileSync(file, { encoding: "utf-8" })
+  const formatted = format(source, new ErrorReporter())
+  // Files that don't parse are testing errors, not layout.
+  if (formatted === null) return []
+
+  const problems: string[] = []
+  const expectedFile = file.replace(/\.lox$/, ".fmt")
+  if (existsSync(expectedFile)) {
+    const expected = readFileSync(expectedFile, { encoding: "utf-8" })
+    if (formatted !== expected) problems.push(`Output differs from ${expectedFile}.`)
+  }
+
+  if (format(formatted, new ErrorReporter()) !== formatted) {
+    problems.push("Formatting again changes the output.")
+  }
+  const scanner = new Scanner(source, new ErrorReporter())
+  scanner.scanTokens()
+  for (const comment of scanner.comments) {
+    const text = comment.text.trim()
+    if (formatted.indexOf(text) === -1) problems.push(`Lost comment: ${text}`)
+  }
+  return problems
+}
+
+function checkDebugTranscript(file: string): string[] {
+  const input = readFileSync(file.replace(/\.lox$/, ".in"), { encoding: "utf-8" })
+  const expectedFile = file.replace(/\.lox$/, ".out")
+  const expected = readFileSync(expectedFile, { encoding: "utf-8" })
+  const result = spawnSync(process.execPath, [join(__dirname, "lox.js"), "debug", file], {
+    input,
+    encoding: "utf-8",
+    timeout: 10000,
+  })
+
+  const actual = result.stdout.split("\n")
+  const lines = expected.split("\n")
+  for (let i = 0; i < Math.max(actual.length, lines.length); i++) {
+    if (actual[i] !== lines[i]) {
+      return [`Line ${i + 1} differs from ${expectedFile}: got ${show(actual[i])}.`]
+    }
+  }
+  return []
+}
+
+function runSession(file: string): string[] {
+  const session: Session = JSON.parse(readFileSync(file, { encoding: "utf-8" }))
+  const text = readFileSync(join(dirname(file), session.document), { encoding: "utf-8" })
+  const uri = `file:///${session.document}`
+  const textDocument = { uri }
+
+  const messages: object[] = [
+    { id: 0, method: "initialize", params: {} },
+    { method: "initialized", params: {} },
+    { method: "textDocument/didOpen", params: { textDocument: { ...textDocument, text } } },
+  ]
+  // Every open or change publishes diagnostics once, in order.
+  let version = 1
+  let logs = 0
+  const checks: { step: SessionStep; id: number | null; publish: number; log?: number }[] = []
+  session.steps.forEach((step, i) => {
+    if ("change" in step) {
+      version++
+      messages.push({
+        method: "textDocument/didChange",
+        params: {
+          textDocument: { ...textDocument, version },
+          contentChanges: [{ text: step.change }],
+        },
+      })
+    } else if ("diagnostics" in step) {
+      checks.push({ step, id: null, publish: version - 1 })
+    } else if ("notification" in step) {
+      messages.push({ method: step.notification, params: step.params })
+      if (step.log !== undefined) checks.push({ step, id: null, publish: -1, log: logs++ })
+    } else {
+      const params = { textDocument, ...step.params }
+      messages.push({ id: i + 1, method: step.request, params })
+      checks.push({ step, id: i + 1, publish: -1 })
+    }
+  })
+  messages.push({ id: session.steps.length + 1, method: "shutdown" }, { method: "exit" })
+
+  const input = messages
+    .map((message) => {
+      const body = JSON.stringify({ jsonrpc: "2.0", ...message })
+      return `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`
+    })
+    .join("")
+  const result = spawnSync(process.execPath, [join(__dirname, "lox.js"), "lsp"], {
+    input,
+    timeout: 10000,
+  })
+
+  const problems: string[] = []
+  const responses = new Map<number, any>()
+  const published: any[] = []
+  const logged: string[] = []
+  for (const message of readFrames(result.stdout)) {
+    if (message.method === "textDocument/publishDiagnostics") {
+      published.push(message.params.diagnostics)
+    } else if (message.method === "window/logMessage") {
+      logged.push(message.params.message)
+    } else if (typeof message.id === "number") {
+      responses.set(message.id, message.error ? { error: message.error } : message.result)
+    }
+  }
+
+  checks.forEach(({ step, id, publish, log }) => {
+    if ("diagnostics" in step) {
+      compare(`Diagnostics ${publish + 1}`, step.diagnostics, published[publish], problems)
+    } else if ("notification" in step) {
+      const actual = logged[log!]
+      if (actual === undefined || !actual.startsWith(step.log!)) {
+        const name = `Log ${log! + 1} (${step.notification})`
+        problems.push(`${name}: expected ${canonical(step.log)}... but got ${canonical(actual)}.`)
+      }
+    } else if ("request" in step) {
+      const actual = responses.get(id!)
+      const name = `Step ${id} (${step.request})`
+      if (step.contains) {
+        for (const item of step.contains) {
+          const found =
+            Array.isArray(actual) && actual.some((x) => canonical(x) === canonical(item))
+          if (!found) problems.push(`${name}: missing ${canonical(item)}.`)
+        }
+      } else {
+        compare(name, step.result, actual, problems)
+      }
+    }
+  })
+
+  if (result.status !== 0) problems.push(`Expected exit code 0 but got ${result.status}.`)
+  return problems
+}
+
+function runAdapterSession(file: string): string[] {
+  const session: AdapterSession = JSON.parse(readFileSync(file, { encoding: "utf-8" }))
+  const program = join(dirname(file), session.program)
+
+  const requests: { command: string; arguments?: any }[] = [
+    { command: "initialize", arguments: { adapterID: "lox" } },
+    { command: "launch", arguments: { program, ...session.launch } },
+  ]
+  const checks: { step: AdapterStep; seq: number }[] = []
+  for (const step of session.steps) {
+    if ("request" in step) {
+      const args = step.arguments && JSON.parse(JSON.stringify(step.arguments))
+      if (args?.source?.path) args.source.path = join(dirname(file), args.source.path)
+      requests.push({ command: step.request, arguments: args })
+      checks.push({ step, seq: requests.length })
+    } else {
+      checks.push({ step, seq: 0 })
+    }
+  }
+
+  const input = requests
+    .map((request, i) => {
+      const body = JSON.stringify({ seq: i + 1, type: "request", ...request })
+      return `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`
+    })
+    .join("")
+  const result = spawnSync(process.execPath, [join(__dirname, "lox.js"), "debug", "--dap"], {
+    input,
+    timeout: 10000,
+  })
+
+  const responses = new Map<number, any>()
+  const events: any[] = []
+  for (const message of readFrames(result.stdout)) {
+    if (message.type === "response") responses.set(message.request_seq, message)
+    if (message.type === "event") events.push(message)
+  }
+
+  const problems: string[] = []
+  let nextEvent = 0
+  for (const { step, seq } of checks) {
+    if ("event" in step) {
+      const found = events.findIndex(
+        (event, i) => i >= nextEvent && event.event === step.event && matches(step.body, event.body)
+      )
+      if (found === -1) {
+        problems.push(`Missing event '${step.event}' with ${canonical(step.body)}.`)
+      } else {
+        nextEvent = found + 1
+      }
+      continue
+    }
+
+    const response = responses.get(seq)
+    const name = `Step ${seq} (${step.request})`
+    if (!response) {
+      problems.push(`${name}: no response.`)
+    } else if (step.error !== undefined) {
+      if (response.success || response.message !== step.error) {
+        problems.push(`${name}: expected error '${step.error}' but got ${canonical(response)}.`)
+      }
+    } else if (!response.success) {
+      problems.push(`${name}: failed with '${response.message}'.`)
+    } else if (!matches(step.result, response.body)) {
+      problems.push(
+        `${name}: expected ${canonical(step.result)} but got ${canonical(response.body)}.`
+      )
+    }
+  }
+
+  if (result.status !== 0) problems.push(`Expected exit code 0 but got ${result.status}.`)
+  return problems
+}
+
+// Whether `actual` has everything `expected` lists. Objects can have more
+// fields than expected, but arrays must be the same length.
+function matches(expected: any, actual: any): boolean {
+  if (expected === undefined) return true
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, i) => matches(item, actual[i]))
+    )
+  }
+  if (expected !== null && typeof expected === "object") {
+    if (actual === null || typeof actual !== "object") return false
+    return Object.keys(expected).every((key) => matches(expected[key], actual[key]))
+  }
+  return expected === actual
+}
+
+function compare(name: string, expected: any, actual: any, problems: string[]) {
+  if (canonical(expected) !== canonical(actual)) {
+    problems.push(`${name}: expected ${canonical(expected)} but got ${canonical(actual)}.`)
+  }
+}
+
+// JSON with object keys sorted, so key order doesn't matter.
+function canonical(value: any): string {
+  if (value === undefined) return "nothing"
+  return JSON.stringify(value, (_, v) => {
+    if (v === null || typeof v !== "object" || Array.isArray(v)) return v
+    const sorted: { [key: string]: any } = {}
+    for (const key of Object.keys(v).sort()) sorted[key] = v[key]
+    return sorted
+  })
+}
+
+// Splits a server's output into its Content-Length framed messages.
+function readFrames(output: Buffer): any[] {
+  const messages: any[] = []
+  let rest = output
+  while (rest.length) {
+    const headerEnd = rest.indexOf("\r\n\r\n")
+    const length = /Content-Length: *(\d+)/.exec(rest.slice(0, headerEnd).toString())
+    if (headerEnd === -1 || !length) break
+    const start = headerEnd + 4
+    messages.push(JSON.parse(rest.slice(start, start + Number(length[1])).toString()))
+    rest = rest.slice(start + Number(length[1]))
+  }
+  return messages
+}
+
+// Formats a compile error the way the annotations spell it, e.g.
+// "[line 3] Error at 'x': Expect ';' after value."
+function formatCompileError(diagnostic: Diagnostic, source: string): string {
+  const span = diagnostic.span!
+  const file = span.file ? `${basename(span.file)} ` : ""
+  if (span.file) source = readFileSync(span.file, { encoding: "utf-8" })
+
+  let where = ""
+  if (scanErrors.indexOf(diagnostic.code) !== -1) {
+    // Scan errors aren't tied to a token.
+  } else if (span.start.offset === span.end.offset) {
+    where = " at end"
+  } else {
+    where = ` at '${source.substring(span.start.offset, span.end.offset)}'`
+  }
+  return `[${file}line ${span.start.line}] Error${where}: ${diagnostic.message}`
+}
+
+function show(line: string | undefined): string {
+  return line === undefined ? "nothing" : `'${line}'`
+}
+
+main(process.argv.slice(2))